@@ -6,13 +6,14 @@ import {
 } from 'lucide-react';
 import { dbService } from './services/db';
 import { cryptoService } from './services/crypto';
-import { youtubeService } from './services/youtube';
-import { vimeoService } from './services/vimeo';
-import { dailymotionService } from './services/dailymotion';
+import { vaultService } from './services/vault';
+import { vaultRegistry } from './services/vaultRegistry';
 import { proxyService, ProxyStatus } from './services/proxy';
 import { geminiService } from './services/gemini';
-import { mediaResolver } from './services/mediaResolver';
-import { MediaItem, ViewState, Tag, VideoItem, Lesson } from './types';
+import { platformRegistry, DEFAULT_PLATFORM } from './services/platforms';
+import { autoLockService } from './services/autoLock';
+import { localFileService, LOCAL_PLATFORM } from './services/localFiles';
+import { MediaItem, ViewState, Tag, VideoItem, Lesson, EncryptedData } from './types';
 import { Button } from './components/Button';
 import { Input } from './components/Input';
 import { Modal, AddItemForm, RenameTagForm } from './components/Modals';
@@ -20,17 +21,26 @@ import { FeedViewer } from './components/FeedViewer';
 import { SettingsPanel } from './components/SettingsPanel';
 import { RandomDiscovery } from './components/RandomDiscovery';
 import { LearnView } from './components/LearnView';
+import { VideoPlayer } from './components/VideoPlayer';
 
 function App() {
   const [isDbReady, setIsDbReady] = useState(false);
-  const [hasUser, setHasUser] = useState(false);
+  const [vaults, setVaults] = useState<string[]>([]); // Usernames of the vaults on this device
+  const [creatingVault, setCreatingVault] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isLocked, setIsLocked] = useState(false); // Session ended by auto-lock, view is kept for unlock
   
   // Auth Form State
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [authError, setAuthError] = useState('');
 
+  // Recovery Key State
+  const [recoveryMode, setRecoveryMode] = useState(false);
+  const [recoveryKeyInput, setRecoveryKeyInput] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [pendingRecoveryKey, setPendingRecoveryKey] = useState<string | null>(null); // Shown once after registration
+
   // Security State (In Memory Only)
   const [sessionKey, setSessionKey] = useState<CryptoKey | null>(null);
 
@@ -75,9 +85,8 @@ function App() {
   useEffect(() => {
     const init = async () => {
       try {
-        await dbService.init();
-        const userExists = await dbService.hasUsers();
-        setHasUser(userExists);
+        await vaultRegistry.init();
+        await refreshVaults();
         setIsDbReady(true);
       } catch (e) {
         console.error("DB Init Failed", e);
@@ -101,8 +110,18 @@ function App() {
   // Fetch Data on Auth and Decrypt Settings
   useEffect(() => {
     if (isAuthenticated && sessionKey) {
-      loadData();
-      initializeSecureServices();
+      // Library records may be sealed with the session key, unlock before reading them
+      dbService.unlockLibrary(sessionKey).then(() => {
+        loadData();
+        initializeSecureServices();
+      }).catch(e => {
+        // Never leave a session open on a library it can't read
+        console.error("Failed to unlock library", e);
+        lockVault();
+        setAuthError('Your library could not be decrypted. ' + (e?.message || ''));
+      });
+      autoLockService.start(lockVault);
+      return () => autoLockService.stop();
     }
   }, [isAuthenticated, sessionKey]);
 
@@ -110,6 +129,7 @@ function App() {
       if (!sessionKey) return;
       try {
           const settings = await dbService.getSettings();
+          autoLockService.configure(settings);
           if (settings) {
               
               // 1. Initialize Nomad Proxy
@@ -123,31 +143,18 @@ function App() {
                   proxyService.setNomadUrl(settings.nomadUrl);
               }
 
-              // 2. Initialize YouTube
-              if (settings.apiKey) {
-                  try {
-                      const decryptedKey = await cryptoService.decryptData(settings.apiKey, sessionKey);
-                      youtubeService.setApiKey(decryptedKey);
-                  } catch (e) { console.warn("Could not decrypt YouTube API Key"); }
-              }
-
-              // 3. Initialize Vimeo
-              if (settings.vimeoToken) {
-                  try {
-                      const decryptedVimeo = await cryptoService.decryptData(settings.vimeoToken, sessionKey);
-                      vimeoService.setToken(decryptedVimeo);
-                  } catch (e) { console.warn("Could not decrypt Vimeo Token"); }
+              // 2. Initialize platform credentials (see services/platforms.ts)
+              for (const provider of platformRegistry.list()) {
+                  for (const credential of provider.credentials) {
+                      const value = settings[credential.field] as EncryptedData | undefined;
+                      if (!value) continue;
+                      try {
+                          provider.setCredential(credential.field, await cryptoService.decryptData(value, sessionKey));
+                      } catch (e) { console.warn(`Could not decrypt ${credential.label}`); }
+                  }
               }
 
-              // 4. Initialize Dailymotion
-              if (settings.dailymotionToken) {
-                  try {
-                      const decryptedDaily = await cryptoService.decryptData(settings.dailymotionToken, sessionKey);
-                      dailymotionService.setToken(decryptedDaily);
-                  } catch (e) { console.warn("Could not decrypt Dailymotion Token"); }
-              }
-
-              // 5. Initialize Gemini
+              // 3. Initialize Gemini
               if (settings.geminiApiKey) {
                   try {
                       const decryptedGemini = await cryptoService.decryptData(settings.geminiApiKey, sessionKey);
@@ -177,6 +184,16 @@ function App() {
     setTags(tagList.map(t => t.name));
   };
 
+  const refreshVaults = async (): Promise<string[]> => {
+    const names = (await vaultRegistry.list()).map(v => v.username);
+    setVaults(names);
+    if (names.length === 1) setUsername(names[0]);
+    return names;
+  };
+
+  // No vault yet, or the user asked for another one
+  const isRegistering = vaults.length === 0 || creatingVault;
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError('');
@@ -187,49 +204,81 @@ function App() {
     }
 
     try {
-      if (hasUser) {
-        // LOGIN FLOW
-        const user = await dbService.getUser(username);
-        if (!user) {
-            setAuthError('User not found');
+      if (!isRegistering) {
+        // LOGIN FLOW (throttled and audited, see vaultService.login)
+        let key: CryptoKey;
+        try {
+            key = await vaultService.login(username, password);
+        } catch (err: any) {
+            setAuthError(err.message || 'Authentication failed');
+            // The vault may have been wiped after too many failures
+            if (!(await refreshVaults()).includes(username)) {
+                setIsLocked(false);
+                setUsername('');
+            }
             return;
         }
 
-        // 1. Derive key from input password + stored salt
-        const key = await cryptoService.deriveKey(password, user.salt);
-        
-        // 2. Create verifier from derived key
-        const verifier = await cryptoService.createVerifier(key);
-
-        // 3. Compare with stored verifier
-        if (verifier === user.verifier) {
-            setSessionKey(key);
-            setIsAuthenticated(true);
-        } else {
-            setAuthError('Invalid credentials');
-        }
+        setSessionKey(key);
+        setIsAuthenticated(true);
+        setIsLocked(false);
 
       } else {
-        // REGISTER FLOW
-        // 1. Generate Salt
-        const salt = cryptoService.generateSalt();
-        
-        // 2. Derive Key
-        const key = await cryptoService.deriveKey(password, salt);
-        
-        // 3. Create Verifier
-        const verifier = await cryptoService.createVerifier(key);
-
-        // 4. Store user
-        await dbService.register({ username, salt, verifier });
+        // REGISTER FLOW (data key wrapped by password and recovery key)
+        const { key, recoveryKey } = await vaultService.createVault(username, password);
         
+        // The vault opens once the user has seen the recovery key
+        setCreatingVault(false);
+        await refreshVaults();
         setSessionKey(key);
-        setIsAuthenticated(true);
+        setPendingRecoveryKey(recoveryKey);
       }
-    } catch (err) {
+    } catch (err: any) {
       console.error(err);
-      setAuthError('Authentication failed');
+      setAuthError(err.message || 'Authentication failed');
+    }
+  };
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAuthError('');
+
+    if (!username || !recoveryKeyInput || !password) {
+        setAuthError('Please fill in all fields');
+        return;
+    }
+    if (password !== confirmPassword) {
+        setAuthError('Passwords do not match');
+        return;
     }
+
+    try {
+        const key = await vaultService.recover(username, recoveryKeyInput, password);
+        setRecoveryMode(false);
+        setRecoveryKeyInput('');
+        setConfirmPassword('');
+        setSessionKey(key);
+        setIsAuthenticated(true);
+        setIsLocked(false);
+    } catch (err: any) {
+        setAuthError(err.message || 'Recovery failed');
+    }
+  };
+
+  const confirmRecoveryKeySaved = () => {
+    setPendingRecoveryKey(null);
+    setIsAuthenticated(true);
+  };
+
+  // Local files are only removed from disk once no other item points at them
+  const releaseLocalFile = (item: MediaItem, store: string) => {
+    if (item.platform !== LOCAL_PLATFORM) return;
+    const others = [
+      ...favorites.filter(f => store !== 'favorites' || f.id !== item.id),
+      ...watchLater.filter(w => store !== 'watchLater' || w.id !== item.id)
+    ];
+    if (others.some(m => m.platform === LOCAL_PLATFORM && m.sourceId === item.sourceId)) return;
+    localFileService.remove(item.sourceId).catch(err => console.warn('Failed to remove local file', err));
   };
 
   const handleSaveItem = async (itemData: Omit<MediaItem, 'id' | 'createdAt'>) => {
@@ -240,9 +289,19 @@ function App() {
     };
 
     if (editingItem) {
-        const updatedItem = { ...editingItem, ...itemData };
+        const updatedItem: MediaItem = { ...editingItem, ...itemData };
+        // Filtered videos were never cached, refetch so loosened filters bring them back
+        if (JSON.stringify(editingItem.filters) !== JSON.stringify(itemData.filters)) {
+            updatedItem.cachedContent = undefined;
+            updatedItem.lastFetched = undefined;
+            updatedItem.nextCursor = undefined;
+        }
         // Determine store based on original item type, unless it's a "watchLater" UI item which uses 'video' schema but different store
         await dbService.update(storeMap[itemData.type], updatedItem);
+        // The stored copy was replaced by another file, or by a link
+        if (updatedItem.platform !== editingItem.platform || updatedItem.sourceId !== editingItem.sourceId) {
+            releaseLocalFile(editingItem, storeMap[itemData.type]);
+        }
         if ((activeView as any).item?.id === editingItem.id) {
             setActiveView({ ...activeView, item: updatedItem } as ViewState);
         }
@@ -265,6 +324,8 @@ function App() {
           url: video.link,
           type: 'video',
           platform: video.platform,
+          instance: video.instance,
+          mediaUrl: video.mediaUrl,
           tags: [],
           createdAt: Date.now()
       };
@@ -289,7 +350,7 @@ function App() {
         thumbnail: '', 
         author: 'Saved Lesson', 
         description: lesson.description || '',
-        platform: 'youtube' // Default assumption if not stored
+        platform: lesson.platform || DEFAULT_PLATFORM // Default assumption if not stored
     };
     setActiveView({ type: 'learn', video, initialLesson: lesson });
   };
@@ -339,7 +400,10 @@ function App() {
       'lesson': 'lessons'
     };
 
+    const removed = type === 'video' ? favorites.find(f => f.id === id) : type === 'watch_later' ? watchLater.find(w => w.id === id) : undefined;
+
     await dbService.delete(storeMap[type], id);
+    if (removed) releaseLocalFile(removed, storeMap[type]);
     
     // Reset view if we just deleted the active item
     if ((activeView as any).item?.id === id || ((activeView as any).initialLesson?.id === id)) {
@@ -363,19 +427,44 @@ function App() {
     setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
   };
 
-  const logout = () => {
+  // Drops the session key, decrypted credentials and loaded library from memory
+  const endSession = () => {
+    autoLockService.stop();
     setIsAuthenticated(false);
-    setUsername('');
     setPassword('');
     setSessionKey(null);
-    youtubeService.setApiKey('');
-    vimeoService.setToken('');
-    dailymotionService.setToken('');
+    dbService.lockLibrary();
+    platformRegistry.clearCredentials();
+    localFileService.revokeAll();
     proxyService.setNomadKey('');
     geminiService.setApiKey('');
+    setChannels([]);
+    setPlaylists([]);
+    setFavorites([]);
+    setWatchLater([]);
+    setLessons([]);
+    setOverlayVideo(null);
+  };
+
+  const logout = () => {
+    endSession();
+    setIsLocked(false);
+    setUsername('');
     setActiveView({ type: 'dashboard' });
   };
 
+  const handleVaultDeleted = async () => {
+    logout();
+    await refreshVaults();
+  };
+
+  // Same teardown as logout, but the username and current view survive for the lock screen
+  const lockVault = () => {
+    endSession();
+    setAuthError('');
+    setIsLocked(true);
+  };
+
   // Search Logic
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
       const q = e.target.value;
@@ -418,9 +507,11 @@ function App() {
       link: item.url,
       pubDate: new Date(item.createdAt).toISOString(),
       thumbnail: '', // Player handles loading via embed
-      author: item.platform || 'Unknown',
+      author: platformRegistry.getName(item.platform),
       description: '',
-      platform: item.platform || 'youtube'
+      platform: item.platform || DEFAULT_PLATFORM,
+      instance: item.instance,
+      mediaUrl: item.mediaUrl
   });
 
   if (!isDbReady) {
@@ -433,30 +524,150 @@ function App() {
         <div className="w-full max-w-md bg-surface p-8 rounded-xl shadow-2xl border border-zinc-700">
           <div className="text-center mb-8">
             <h1 className="text-3xl font-bold text-white mb-2">Nomad Media Player</h1>
-            <p className="text-zinc-400">{hasUser ? 'Welcome back' : 'Initialize your distraction-free workspace'}</p>
+            <p className="text-zinc-400">
+              {pendingRecoveryKey ? 'Your vault is ready' 
+                : recoveryMode ? 'Reset your password with your recovery key' 
+                : isLocked ? 'Vault locked. Enter your password to continue.' 
+                : !isRegistering ? 'Welcome back' 
+                : vaults.length > 0 ? 'Create another vault on this device' : 'Initialize your distraction-free workspace'}
+            </p>
           </div>
           
-          <form onSubmit={handleAuth} className="space-y-6">
-            <Input 
-              label="Username" 
-              value={username} 
-              onChange={e => setUsername(e.target.value)} 
-              placeholder="Enter username"
-            />
-            <Input 
-              label="Password" 
-              type="password"
-              value={password} 
-              onChange={e => setPassword(e.target.value)} 
-              placeholder="Enter password"
-            />
-            
-            {authError && <div className="text-red-400 text-sm text-center">{authError}</div>}
-            
-            <Button type="submit" className="w-full" size="lg">
-              {hasUser ? 'Unlock' : 'Create Vault'}
-            </Button>
-          </form>
+          {pendingRecoveryKey ? (
+            <div className="space-y-6">
+              <div className="p-4 bg-yellow-900/10 border border-yellow-900/30 rounded-lg space-y-3">
+                <div className="flex items-center gap-2 text-yellow-400 font-semibold text-sm">
+                  <AlertTriangle size={16} /> Save your recovery key
+                </div>
+                <p className="text-xs text-zinc-400">
+                  This key is the only way back into your vault if you forget your password. It is shown once and never stored. 
+                  Write it down or keep it in a password manager.
+                </p>
+                <div className="font-mono text-center text-white bg-zinc-900 border border-zinc-700 rounded-md p-3 break-all select-all">
+                  {pendingRecoveryKey}
+                </div>
+                <button 
+                  type="button" 
+                  onClick={() => navigator.clipboard.writeText(pendingRecoveryKey)} 
+                  className="text-xs text-zinc-400 hover:text-white transition-colors"
+                >
+                  Copy to clipboard
+                </button>
+              </div>
+              <Button type="button" className="w-full" size="lg" onClick={confirmRecoveryKeySaved}>
+                I saved my recovery key
+              </Button>
+            </div>
+          ) : recoveryMode ? (
+            <form onSubmit={handleRecover} className="space-y-6">
+              <Input 
+                label="Username" 
+                value={username} 
+                onChange={e => setUsername(e.target.value)} 
+                placeholder="Enter username"
+                disabled={isLocked}
+              />
+              <Input 
+                label="Recovery Key" 
+                value={recoveryKeyInput} 
+                onChange={e => setRecoveryKeyInput(e.target.value)} 
+                placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                className="font-mono"
+              />
+              <Input 
+                label="New Password" 
+                type="password"
+                value={password} 
+                onChange={e => setPassword(e.target.value)} 
+                placeholder="Enter new password"
+              />
+              <Input 
+                label="Confirm New Password" 
+                type="password"
+                value={confirmPassword} 
+                onChange={e => setConfirmPassword(e.target.value)} 
+                placeholder="Repeat new password"
+              />
+
+              {authError && <div className="text-red-400 text-sm text-center">{authError}</div>}
+
+              <Button type="submit" className="w-full" size="lg">
+                Recover Vault
+              </Button>
+
+              <button type="button" onClick={() => { setRecoveryMode(false); setAuthError(''); }} className="w-full text-sm text-zinc-500 hover:text-white transition-colors">
+                Back to password unlock
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleAuth} className="space-y-6">
+              {!isRegistering && !isLocked ? (
+                <div className="w-full">
+                  <label className="block text-sm font-medium text-zinc-300 mb-1">Vault</label>
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {vaults.map(name => (
+                      <button 
+                        key={name}
+                        type="button"
+                        onClick={() => { setUsername(name); setAuthError(''); }}
+                        className={`w-full flex items-center gap-2 p-3 rounded-md border text-sm transition-colors ${
+                          username === name 
+                            ? 'border-blue-500 bg-blue-600/20 text-white' 
+                            : 'border-zinc-700 bg-zinc-900 text-zinc-400 hover:text-white'
+                        }`}
+                      >
+                        <Shield size={14} />
+                        <span className="truncate">{name}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <Input 
+                  label="Username" 
+                  value={username} 
+                  onChange={e => setUsername(e.target.value)} 
+                  placeholder="Enter username"
+                  disabled={isLocked}
+                />
+              )}
+              <Input 
+                label="Password" 
+                type="password"
+                value={password} 
+                onChange={e => setPassword(e.target.value)} 
+                placeholder="Enter password"
+              />
+              
+              {authError && <div className="text-red-400 text-sm text-center">{authError}</div>}
+              
+              <Button type="submit" className="w-full" size="lg">
+                {isRegistering ? 'Create Vault' : 'Unlock'}
+              </Button>
+
+              {!isRegistering && (
+                <button type="button" onClick={() => { setRecoveryMode(true); setAuthError(''); setPassword(''); }} className="w-full text-sm text-zinc-500 hover:text-white transition-colors">
+                  Forgot password? Use your recovery key
+                </button>
+              )}
+
+              {isLocked && (
+                <button type="button" onClick={logout} className="w-full text-sm text-zinc-500 hover:text-white transition-colors">
+                  Sign out instead
+                </button>
+              )}
+
+              {!isLocked && vaults.length > 0 && (
+                <button 
+                  type="button" 
+                  onClick={() => { setCreatingVault(!creatingVault); setUsername(creatingVault && vaults.length === 1 ? vaults[0] : ''); setPassword(''); setAuthError(''); }} 
+                  className="w-full text-sm text-zinc-500 hover:text-white transition-colors"
+                >
+                  {creatingVault ? 'Back to vault list' : 'Create another vault'}
+                </button>
+              )}
+            </form>
+          )}
           
           <div className="mt-6 p-3 bg-zinc-900/50 rounded-lg border border-zinc-800 flex gap-3">
               <Shield className="text-green-500 shrink-0" size={20} />
@@ -500,7 +711,7 @@ function App() {
           }`}
         >
           <div className="flex items-center gap-2 truncate">
-            {icon}
+            {item.avatar ? <img src={item.avatar} alt="" className="w-4 h-4 rounded-full object-cover shrink-0" /> : icon}
             <span className="truncate">{item.name}</span>
           </div>
           <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
@@ -788,7 +999,7 @@ function App() {
                                       <h3 className="font-semibold text-white text-sm line-clamp-2 mb-1">{item.name}</h3>
                                       <div className="flex items-center justify-between">
                                         <div className="flex gap-2">
-                                            <span className="text-xs text-zinc-500 uppercase">{item.platform}</span>
+                                            <span className="text-xs text-zinc-500 uppercase">{platformRegistry.getName(item.platform)}</span>
                                             <button
                                                 onClick={(e) => { e.stopPropagation(); handleLaunchLearn(mediaItemToVideoItem(item)); }}
                                                 className="text-zinc-500 hover:text-yellow-400 transition-colors"
@@ -968,7 +1179,7 @@ function App() {
             />
           )}
 
-          {activeView.type === 'settings' && sessionKey && <SettingsPanel sessionKey={sessionKey} />}
+          {activeView.type === 'settings' && sessionKey && <SettingsPanel sessionKey={sessionKey} username={username} onSessionKeyChange={setSessionKey} onVaultDeleted={handleVaultDeleted} />}
           
           {activeView.type === 'about' && (
               <div className="p-8 max-w-3xl mx-auto">
@@ -1027,21 +1238,15 @@ function App() {
                     </div>
                 </div>
                 <div className="aspect-video bg-black w-full">
-                    <iframe
-                        width="100%"
-                        height="100%"
-                        src={mediaResolver.getEmbedUrl({ platform: overlayVideo.platform, sourceId: overlayVideo.id })}
-                        title={overlayVideo.title}
-                        frameBorder="0"
-                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                        allowFullScreen
-                    />
+                    <VideoPlayer video={overlayVideo} />
                 </div>
                 <div className="p-4 bg-zinc-900 text-sm flex justify-between items-center text-zinc-400">
                     <span>{new Date(overlayVideo.pubDate).toLocaleString()}</span>
-                    <a href={overlayVideo.link} target="_blank" rel="noreferrer" className="flex items-center gap-2 hover:text-white">
-                        Watch on {overlayVideo.platform} <ExternalLink size={14} />
-                    </a>
+                    {overlayVideo.link && (
+                        <a href={overlayVideo.link} target="_blank" rel="noreferrer" className="flex items-center gap-2 hover:text-white">
+                            Watch on {platformRegistry.getName(overlayVideo.platform)} <ExternalLink size={14} />
+                        </a>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,8 +1,48 @@
 
 import React, { useEffect, useState } from 'react';
-import { ExternalLink, Play, Clock, User, X, Bookmark, Check, RotateCcw, Brain } from 'lucide-react';
-import { MediaItem, VideoItem } from '../types';
+import { ExternalLink, Play, Clock, User, X, Bookmark, Check, RotateCcw, Brain, ChevronDown } from 'lucide-react';
+import { LiveStatus, MediaItem, VideoItem } from '../types';
 import { mediaResolver } from '../services/mediaResolver';
+import { platformRegistry, DEFAULT_PLATFORM } from '../services/platforms';
+import { DailymotionError } from '../services/dailymotion';
+import { VideoPlayer } from './VideoPlayer';
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// "1234567" -> "1.2M"
+const formatViews = (views: string): string => {
+  return new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 }).format(Number(views));
+};
+
+const LIVE_BADGES: Record<LiveStatus, { label: string; className: string }> = {
+  live: { label: 'LIVE', className: 'bg-red-600 text-white' },
+  upcoming: { label: 'Upcoming', className: 'bg-zinc-800/90 text-zinc-200 border border-zinc-600' },
+  premiere: { label: 'Premiere', className: 'bg-purple-700/90 text-white' }
+};
+
+interface ErrorAdvice {
+  hint: string;
+  retry: boolean; // Worth trying again later
+}
+
+// What the user can do about a typed provider error, null for plain errors
+const adviceFor = (e: unknown): ErrorAdvice | null => {
+  if (!(e instanceof DailymotionError)) return null;
+  switch (e.kind) {
+    case 'rate_limited': return { hint: 'Too many requests for now. Wait a minute, then retry.', retry: true };
+    case 'unavailable': return { hint: 'Dailymotion is having trouble on its side. Retry later.', retry: true };
+    case 'network': return { hint: 'Check your connection or proxy settings, then retry.', retry: true };
+    case 'not_found': return { hint: 'This source was removed or made private. Check its URL or delete it.', retry: false };
+    case 'unauthorized': return { hint: 'Check or remove the Dailymotion token in Settings.', retry: false };
+    default: return null;
+  }
+};
 
 interface FeedViewerProps {
   item: MediaItem;
@@ -14,13 +54,19 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
   const [items, setItems] = useState<VideoItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorAdvice, setErrorAdvice] = useState<ErrorAdvice | null>(null);
+  const [staleReason, setStaleReason] = useState<string | null>(null); // Why cached videos are shown instead of fresh ones
   const [activeVideo, setActiveVideo] = useState<VideoItem | null>(null);
   const [bookmarkedIds, setBookmarkedIds] = useState<Set<string>>(new Set());
   const [lastFetchedTime, setLastFetchedTime] = useState<number | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     setActiveVideo(null);
     setItems([]);
+    setNextCursor(undefined);
+    setStaleReason(null);
     setLastFetchedTime(item.lastFetched || null);
     
     // Initial load (uses cache if available)
@@ -30,20 +76,43 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
   const loadContent = async (forceRefresh: boolean) => {
       setLoading(true);
       setError(null);
+      setErrorAdvice(null);
       try {
-        const videoItems = await mediaResolver.getVideos(item, forceRefresh);
-        setItems(videoItems);
-        if (forceRefresh) {
+        const page = await mediaResolver.getVideos(item, forceRefresh);
+        setItems(page.videos);
+        setNextCursor(page.nextCursor);
+        setStaleReason(page.error || null);
+        if (forceRefresh && !page.error) {
             setLastFetchedTime(Date.now());
         }
       } catch (e: any) {
         console.error(e);
         setError(e.message || 'Failed to load content.');
+        setErrorAdvice(adviceFor(e));
       } finally {
         setLoading(false);
       }
   };
 
+  const loadMore = async () => {
+      if (!nextCursor || loadingMore) return;
+      setLoadingMore(true);
+      setError(null);
+      setErrorAdvice(null);
+      try {
+        // Returns every page loaded so far, the new one appended
+        const page = await mediaResolver.getVideos(item, false, nextCursor);
+        setItems(page.videos);
+        setNextCursor(page.nextCursor);
+      } catch (e: any) {
+        console.error(e);
+        setError(e.message || 'Failed to load more videos.');
+        setErrorAdvice(adviceFor(e));
+      } finally {
+        setLoadingMore(false);
+      }
+  };
+
   const handleBookmark = (e: React.MouseEvent, vid: VideoItem) => {
       e.stopPropagation();
       if (onBookmark) {
@@ -65,30 +134,24 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
           id: item.sourceId,
           title: item.name,
           description: '',
-          platform: item.platform || 'youtube',
+          platform: item.platform || DEFAULT_PLATFORM,
+          instance: item.instance,
+          mediaUrl: item.mediaUrl,
           link: item.url,
           pubDate: new Date(item.createdAt).toISOString(),
           thumbnail: '',
-          author: item.platform || 'Unknown'
+          author: platformRegistry.getName(item.platform)
       };
 
     return (
       <div className="w-full max-w-4xl mx-auto mt-8 p-4">
         <div className="flex items-center gap-2 mb-4">
              <h2 className="text-2xl font-bold text-white">{displayItem.title}</h2>
-             <span className="text-xs uppercase bg-zinc-800 text-zinc-400 px-2 py-0.5 rounded border border-zinc-700">{displayItem.platform}</span>
+             <span className="text-xs uppercase bg-zinc-800 text-zinc-400 px-2 py-0.5 rounded border border-zinc-700">{platformRegistry.getName(displayItem.platform)}</span>
         </div>
         
         <div className="aspect-video w-full bg-black rounded-xl overflow-hidden shadow-2xl border border-zinc-700 relative">
-          <iframe
-            width="100%"
-            height="100%"
-            src={mediaResolver.getEmbedUrl({ platform: displayItem.platform, sourceId: displayItem.id })}
-            title={item.name}
-            frameBorder="0"
-            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-            allowFullScreen
-          />
+          <VideoPlayer video={displayItem} />
         </div>
         
         <div className="mt-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -109,15 +172,17 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
                         <Brain size={16} /> Learn Mode
                     </button>
                 )}
-                <a 
-                    href={displayItem.link || item.url}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="inline-flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
-                >
-                    <ExternalLink size={14} />
-                    Open on {displayItem.platform}
-                </a>
+                {(displayItem.link || item.url) && (
+                    <a 
+                        href={displayItem.link || item.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-2 text-sm text-zinc-400 hover:text-white transition-colors"
+                    >
+                        <ExternalLink size={14} />
+                        Open on {platformRegistry.getName(displayItem.platform)}
+                    </a>
+                )}
             </div>
         </div>
         {items[0]?.description && (
@@ -133,11 +198,16 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
   // 2. Feed View (Channels & Playlists)
   return (
     <div className="w-full h-full overflow-y-auto p-6 relative">
+      {item.banner && (
+        <img src={item.banner} alt="" className="block w-[calc(100%+3rem)] max-w-none h-32 md:h-40 -mx-6 -mt-6 mb-6 bg-zinc-900 object-cover object-center" />
+      )}
       <div className="flex items-center justify-between mb-8">
-        <div>
+        <div className="flex items-center gap-4 min-w-0">
+          {item.avatar && <img src={item.avatar} alt="" className="w-16 h-16 rounded-full object-cover border border-zinc-700 shrink-0" />}
+          <div className="min-w-0">
             <h1 className="text-3xl font-bold text-white tracking-tight mb-2">{item.name}</h1>
             <div className="flex gap-2 items-center">
-                <span className="capitalize px-2 py-1 bg-zinc-800 text-zinc-400 text-xs rounded border border-zinc-700">{item.platform || 'youtube'}</span>
+                <span className="px-2 py-1 bg-zinc-800 text-zinc-400 text-xs rounded border border-zinc-700">{platformRegistry.getName(item.platform)}</span>
                 {item.type === 'channel' && <span className="px-2 py-1 bg-green-900/50 text-green-400 text-xs rounded border border-green-900">Source</span>}
                 {item.type === 'playlist' && <span className="px-2 py-1 bg-purple-900/50 text-purple-400 text-xs rounded border border-purple-900">Path</span>}
                 {lastFetchedTime && (
@@ -146,6 +216,10 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
                     </span>
                 )}
             </div>
+            {item.description && (
+                <p className="mt-3 text-sm text-zinc-400 line-clamp-2 max-w-3xl" title={item.description}>{item.description}</p>
+            )}
+          </div>
         </div>
         
         <button 
@@ -174,6 +248,18 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
             {error.includes('API Key') && (
                 <div className="mt-4 text-xs text-zinc-400">Go to Settings to configure your YouTube API Key.</div>
             )}
+            {errorAdvice && <div className="mt-4 text-xs text-zinc-400">{errorAdvice.hint}</div>}
+            {errorAdvice?.retry && (
+                <button onClick={() => loadContent(true)} className="mt-3 flex items-center gap-1 text-xs text-primary hover:underline">
+                    <RotateCcw size={12} /> Retry
+                </button>
+            )}
+        </div>
+      )}
+
+      {staleReason && items.length > 0 && (
+        <div className="mb-6 p-3 rounded-lg border border-yellow-900/50 bg-yellow-900/10 text-sm text-yellow-200">
+            Showing cached videos, the refresh failed: {staleReason}
         </div>
       )}
 
@@ -199,6 +285,19 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
                         <Play size={32} />
                     </div>
                 )}
+                {vid.liveStatus && (
+                    <span
+                        className={`absolute top-2 left-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide ${LIVE_BADGES[vid.liveStatus].className}`}
+                        title={vid.scheduledStart ? `Starts ${new Date(vid.scheduledStart).toLocaleString()}` : undefined}
+                    >
+                        {LIVE_BADGES[vid.liveStatus].label}
+                    </span>
+                )}
+                {!vid.liveStatus && vid.duration && (
+                    <span className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded bg-black/80 text-white text-xs font-mono">
+                        {formatDuration(vid.duration)}
+                    </span>
+                )}
                 <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                     <button 
                         className="p-3 bg-white/10 backdrop-blur-md rounded-full text-white hover:bg-white/20 transition-colors transform scale-90 group-hover:scale-100 duration-300"
@@ -224,7 +323,8 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
                     <div className="flex items-center justify-between text-xs text-zinc-400">
                         <div className="flex items-center gap-2">
                             <Clock size={12} />
-                            <span>{new Date(vid.pubDate).toLocaleDateString()}</span>
+                            <span>{new Date(vid.scheduledStart || vid.pubDate).toLocaleDateString()}</span>
+                            {vid.views && <span>• {formatViews(vid.views)} views</span>}
                         </div>
                         <div className="flex items-center gap-3">
                             {onLearn && (
@@ -266,7 +366,24 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
       
       {!loading && !error && items.length === 0 && (
         <div className="text-center text-zinc-500 py-12">
-            No videos found.
+            {nextCursor ? 'No videos on this page matched the content filters.' : 'No videos found.'}
+        </div>
+      )}
+
+      {(items.length > 0 || nextCursor) && (nextCursor || (error && !loading)) && (
+        <div className={`flex flex-col items-center gap-2 pb-20 ${items.length > 0 ? '-mt-12' : ''}`}>
+            {error && <div className="text-red-400 text-sm">{error}</div>}
+            {error && errorAdvice && <div className="text-xs text-zinc-400">{errorAdvice.hint}</div>}
+            {nextCursor && (
+                <button
+                    onClick={loadMore}
+                    disabled={loadingMore || loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-surface hover:bg-zinc-700 border border-zinc-700 rounded-lg text-sm transition-colors text-zinc-300 hover:text-white disabled:opacity-50"
+                >
+                    <ChevronDown size={16} className={loadingMore ? "animate-bounce" : ""} />
+                    {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+            )}
         </div>
       )}
 
@@ -294,15 +411,7 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
                     </div>
                 </div>
                 <div className="aspect-video bg-black w-full">
-                    <iframe
-                        width="100%"
-                        height="100%"
-                        src={mediaResolver.getEmbedUrl({ platform: activeVideo.platform, sourceId: activeVideo.id })}
-                        title={activeVideo.title}
-                        frameBorder="0"
-                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                        allowFullScreen
-                    />
+                    <VideoPlayer video={activeVideo} />
                 </div>
                 <div className="p-4 bg-zinc-900 text-sm flex justify-between items-center text-zinc-400">
                     <span>{new Date(activeVideo.pubDate).toLocaleString()}</span>
@@ -316,7 +425,7 @@ export const FeedViewer: React.FC<FeedViewerProps> = ({ item, onBookmark, onLear
                             </button>
                         )}
                         <a href={activeVideo.link} target="_blank" rel="noreferrer" className="flex items-center gap-2 hover:text-white">
-                            Watch on {activeVideo.platform} <ExternalLink size={14} />
+                            Watch on {platformRegistry.getName(activeVideo.platform)} <ExternalLink size={14} />
                         </a>
                     </div>
                 </div>
@@ -1,11 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { VideoItem, Lesson } from '../types';
-import { mediaResolver } from '../services/mediaResolver';
 import { geminiService } from '../services/gemini';
 import { dbService } from '../services/db';
 import { Button } from './Button';
 import { Modal, SaveLessonForm } from './Modals';
+import { VideoPlayer } from './VideoPlayer';
 import { ArrowLeft, BookOpen, MessageSquare, Save, Sparkles, Send, Copy, Check } from 'lucide-react';
 
 interface LearnViewProps {
@@ -95,6 +95,7 @@ export const LearnView: React.FC<LearnViewProps> = ({
         content: content,
         videoId: video.id,
         videoUrl: video.link,
+        platform: video.platform,
         tags: tags,
         createdAt: Date.now()
     };
@@ -140,14 +141,7 @@ export const LearnView: React.FC<LearnViewProps> = ({
             {/* Left: Video Player */}
             <div className="flex-1 bg-black flex flex-col relative h-[40vh] lg:h-auto border-b lg:border-b-0 lg:border-r border-zinc-700">
                  <div className="flex-1 relative w-full h-full">
-                    <iframe
-                        className="absolute inset-0 w-full h-full"
-                        src={mediaResolver.getEmbedUrl({ platform: video.platform, sourceId: video.id })}
-                        title={video.title}
-                        frameBorder="0"
-                        allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-                        allowFullScreen
-                    />
+                    <VideoPlayer video={video} className="absolute inset-0 w-full h-full" />
                  </div>
                  {/* Video Info Footer */}
                  <div className="p-4 bg-zinc-900 border-t border-zinc-800 text-sm text-zinc-400 hidden lg:block shrink-0">
@@ -1,11 +1,15 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Globe } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Globe, HardDrive, SlidersHorizontal } from 'lucide-react';
 import { Button } from './Button';
 import { Input } from './Input';
-import { MediaItem } from '../types';
+import { MediaItem, ContentFilters } from '../types';
 import { TagInput } from './TagInput';
 import { mediaResolver } from '../services/mediaResolver';
+import { platformRegistry, DetectedSource, SourceMetadata } from '../services/platforms';
+import { localFileService, LOCAL_PLATFORM } from '../services/localFiles';
+import { backupService, ImportPlan, ImportAction } from '../services/backup';
+import { ValidationIssue } from '../services/validation';
 
 interface ModalProps {
   isOpen: boolean;
@@ -34,6 +38,22 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, children }
   );
 };
 
+const FILTER_TOGGLES: { key: 'hideShorts' | 'hideLive' | 'hideUpcoming'; label: string }[] = [
+  { key: 'hideShorts', label: 'Hide Shorts' },
+  { key: 'hideLive', label: 'Hide live streams and their recordings' },
+  { key: 'hideUpcoming', label: 'Hide upcoming streams and premieres' }
+];
+
+const METADATA_LOOKUP_DELAY = 600; // Waits for the user to stop typing
+
+// Duration limits are edited in minutes and stored in seconds
+const minutesToSeconds = (value: string): number | undefined => {
+  const minutes = parseFloat(value);
+  return minutes > 0 ? Math.round(minutes * 60) : undefined;
+};
+
+const secondsToMinutes = (value?: number): string => value ? String(Math.round(value / 6) / 10) : '';
+
 interface AddItemFormProps {
   type: 'channel' | 'playlist' | 'video';
   onSave: (item: Omit<MediaItem, 'id' | 'createdAt'>) => void;
@@ -55,20 +75,85 @@ export const AddItemForm: React.FC<AddItemFormProps> = ({
   const [sourceInput, setSourceInput] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [detectedPlatform, setDetectedPlatform] = useState<string | null>(null);
+  const [localFile, setLocalFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [savingLabel, setSavingLabel] = useState<string | null>(null); // Set while a save step runs
+  const [filterToggles, setFilterToggles] = useState<ContentFilters>({});
+  const [minMinutes, setMinMinutes] = useState('');
+  const [maxMinutes, setMaxMinutes] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [metadata, setMetadata] = useState<SourceMetadata>({});
+  const [lookingUp, setLookingUp] = useState(false);
+  const autoFilledName = useRef<string | undefined>(undefined); // Replaced by the next lookup unless the user edited it
+  const platformNames = platformRegistry.list().filter(p => p.id !== LOCAL_PLATFORM).map(p => p.name).join(', ');
+
+  // Videos can also come from disk, stored inside the vault
+  const acceptsFiles = type === 'video' && localFileService.isSupported();
+  const [replacingStoredFile, setReplacingStoredFile] = useState(false);
+  const keepsStoredFile = !localFile && !replacingStoredFile && initialData?.platform === LOCAL_PLATFORM;
 
   useEffect(() => {
     if (initialData) {
         setName(initialData.name);
-        setSourceInput(initialData.sourceId); // Or URL if stored
+        setSourceInput(initialData.url || initialData.sourceId);
         if (initialData.tags) {
             setSelectedTags(initialData.tags);
         }
         if (initialData.platform) {
             setDetectedPlatform(initialData.platform);
         }
+        setMetadata({ avatar: initialData.avatar, banner: initialData.banner, description: initialData.description });
+        if (initialData.filters) {
+            const { minDuration, maxDuration, ...toggles } = initialData.filters;
+            setFilterToggles(toggles);
+            setMinMinutes(secondsToMinutes(minDuration));
+            setMaxMinutes(secondsToMinutes(maxDuration));
+            setShowFilters(true);
+        }
     }
   }, [initialData]);
 
+  // Name, artwork and description of the recognized URL
+  useEffect(() => {
+      const input = sourceInput.trim();
+      // An edited item keeps its details until its source changes, raw IDs aren't looked up
+      if (!input || localFile || input === (initialData?.url || initialData?.sourceId)) return;
+      // Only URLs a platform recognizes, the raw input fallback would send anything to the default platform
+      let detected: DetectedSource | null = null;
+      try {
+          if (input.includes('.')) detected = platformRegistry.detect(new URL(input.startsWith('http') ? input : `https://${input}`), type);
+      } catch { /* Not a URL */ }
+      if (!detected) {
+          setMetadata({});
+          return;
+      }
+      const source = detected;
+
+      let cancelled = false;
+      const timer = setTimeout(async () => {
+          setLookingUp(true);
+          try {
+              const found = await mediaResolver.getMetadata(source);
+              if (cancelled) return;
+              setMetadata(found);
+              if (found.name) {
+                  setName(current => !current.trim() || current === autoFilledName.current ? found.name! : current);
+                  autoFilledName.current = found.name;
+              }
+          } catch (e) {
+              console.warn('Source details lookup failed', e);
+              if (!cancelled) setMetadata({});
+          } finally {
+              if (!cancelled) setLookingUp(false);
+          }
+      }, METADATA_LOOKUP_DELAY);
+
+      return () => {
+          cancelled = true;
+          clearTimeout(timer);
+      };
+  }, [sourceInput]);
+
   // Live detection feedback
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const val = e.target.value;
@@ -81,24 +166,85 @@ export const AddItemForm: React.FC<AddItemFormProps> = ({
       }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const pickFile = (file?: File) => {
+      if (!file) return;
+      // Some containers (mkv...) come without a MIME type, let the player decide for those
+      if (file.type && !file.type.startsWith('video/') && !file.type.startsWith('audio/')) {
+          alert("Please choose a video or audio file.");
+          return;
+      }
+      setLocalFile(file);
+      setDetectedPlatform(LOCAL_PLATFORM);
+      if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  // No active filter at all stores nothing
+  const buildFilters = (): ContentFilters | undefined => {
+      const filters: ContentFilters = {
+          hideShorts: filterToggles.hideShorts || undefined,
+          hideLive: filterToggles.hideLive || undefined,
+          hideUpcoming: filterToggles.hideUpcoming || undefined,
+          minDuration: minutesToSeconds(minMinutes),
+          maxDuration: minutesToSeconds(maxMinutes)
+      };
+      return Object.values(filters).some(v => v !== undefined) ? filters : undefined;
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      pickFile(e.dataTransfer.files[0]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Local files: copy into the vault's storage, the stored name becomes the source ID
+    if (localFile || keepsStoredFile) {
+        let sourceId = initialData?.sourceId || '';
+        if (localFile) {
+            setSavingLabel('Copying file...');
+            try {
+                sourceId = await localFileService.importFile(localFile);
+            } catch (err: any) {
+                alert(err.message || 'Could not store the file.');
+                return;
+            } finally {
+                setSavingLabel(null);
+            }
+        }
+
+        onSave({ name, sourceId, url: '', type: 'video', platform: LOCAL_PLATFORM, tags: selectedTags });
+        onClose();
+        return;
+    }
     
     // Resolve platform and clean ID
-    const result = mediaResolver.detectSource(sourceInput, type);
+    const detected = mediaResolver.detectSource(sourceInput, type);
 
-    if (!result.sourceId) {
+    if (!detected.sourceId) {
         alert("Could not detect a valid ID.");
         return;
     }
     
-    // Construct standard web URLs for reference
+    // Swap handles and custom names for permanent IDs
+    let result = detected;
+    setSavingLabel('Resolving...');
+    try {
+        result = await mediaResolver.resolveSource(detected, sourceInput, type);
+    } catch (err: any) {
+        alert(err.message || 'Could not resolve this source.');
+        return;
+    } finally {
+        setSavingLabel(null);
+    }
+
+    // Construct standard web URLs for reference (kept as entered, even once the ID is resolved)
     let url = sourceInput;
     if (!sourceInput.startsWith('http')) {
-        // Reconstruct URL based on platform if user only pasted ID
-        if (result.platform === 'youtube') url = `https://youtube.com/watch?v=${result.sourceId}`;
-        if (result.platform === 'vimeo') url = `https://vimeo.com/${result.sourceId}`;
-        if (result.platform === 'dailymotion') url = `https://dailymotion.com/video/${result.sourceId}`;
+        // Reconstruct URL based on platform if user only pasted ID (as detected, unless another platform took it)
+        const source = result.platform === detected.platform ? detected : result;
+        url = platformRegistry.get(source.platform).getWebUrl(source.sourceId, source.type, source.instance);
     }
 
     onSave({
@@ -107,7 +253,12 @@ export const AddItemForm: React.FC<AddItemFormProps> = ({
       url,
       type: result.type, // Resolver might correct the type (e.g., user clicked Channel but pasted a Playlist URL)
       platform: result.platform,
-      tags: selectedTags
+      instance: result.instance,
+      avatar: metadata.avatar,
+      banner: metadata.banner,
+      description: metadata.description,
+      tags: selectedTags,
+      filters: result.type === 'video' ? undefined : buildFilters()
     });
     onClose();
   };
@@ -122,24 +273,70 @@ export const AddItemForm: React.FC<AddItemFormProps> = ({
         required
       />
       
-      <div className="relative">
-          <Input 
-            label="Source URL or ID" 
-            value={sourceInput} 
-            onChange={handleInputChange} 
-            placeholder="Paste URL (YouTube, Vimeo, Dailymotion)..."
-            required
-          />
-          {detectedPlatform && (
-              <div className="absolute right-3 top-[34px] flex items-center gap-1 text-xs text-primary bg-blue-900/20 px-2 py-0.5 rounded border border-blue-900">
-                  <Globe size={10} />
-                  <span className="capitalize">{detectedPlatform}</span>
+      {(localFile || keepsStoredFile) ? (
+          <div className="space-y-1">
+              <div className="flex items-center justify-between gap-2 p-3 rounded-md border border-zinc-700 bg-zinc-900 text-sm text-zinc-300">
+                  <span className="flex items-center gap-2 truncate">
+                      <HardDrive size={14} className="shrink-0 text-primary" />
+                      <span className="truncate">{localFile ? localFile.name : 'Stored local file'}</span>
+                  </span>
+                  <button
+                      type="button"
+                      onClick={() => {
+                          if (keepsStoredFile) setReplacingStoredFile(true);
+                          setLocalFile(null);
+                          setDetectedPlatform(null);
+                          setSourceInput('');
+                      }}
+                      className="text-xs text-zinc-500 hover:text-white"
+                  >
+                      {keepsStoredFile ? 'Replace' : 'Remove'}
+                  </button>
               </div>
-          )}
-      </div>
+              <p className="text-xs text-zinc-500">The file is stored unencrypted on this device, library encryption does not cover it.</p>
+          </div>
+      ) : (
+          <div className="relative">
+              <Input 
+                label="Source URL or ID" 
+                value={sourceInput} 
+                onChange={handleInputChange} 
+                placeholder={`Paste URL (${platformNames})...`}
+                required
+              />
+              {detectedPlatform && (
+                  <div className="absolute right-3 top-[34px] flex items-center gap-1 text-xs text-primary bg-blue-900/20 px-2 py-0.5 rounded border border-blue-900">
+                      <Globe size={10} />
+                      <span>{platformRegistry.getName(detectedPlatform)}</span>
+                  </div>
+              )}
+          </div>
+      )}
+
+      {!localFile && !keepsStoredFile && (lookingUp || metadata.avatar || metadata.description) && (
+          <div className="flex items-center gap-3 p-2 rounded-md bg-zinc-900 border border-zinc-800">
+              {metadata.avatar && <img src={metadata.avatar} alt="" className="w-10 h-10 rounded-full object-cover shrink-0" />}
+              <p className="text-xs text-zinc-400 line-clamp-2">
+                  {lookingUp ? 'Looking up details...' : metadata.description || 'Artwork found.'}
+              </p>
+          </div>
+      )}
+
+      {acceptsFiles && !localFile && !keepsStoredFile && (
+          <label
+              onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`flex flex-col items-center justify-center gap-1 p-4 rounded-md border border-dashed cursor-pointer text-xs transition-colors ${isDragging ? 'border-primary bg-blue-900/20 text-primary' : 'border-zinc-700 text-zinc-500 hover:border-zinc-500'}`}
+          >
+              <HardDrive size={18} />
+              <span>Or drop a video file here / click to browse</span>
+              <input type="file" accept="video/*,audio/*" className="hidden" onChange={e => pickFile(e.target.files?.[0])} />
+          </label>
+      )}
 
       <p className="text-xs text-zinc-500">
-          Supports: YouTube, Vimeo, and Dailymotion URLs.
+          Supports: {platformNames} URLs{acceptsFiles ? ' and local video files' : ''}.
       </p>
       
       <TagInput 
@@ -149,9 +346,44 @@ export const AddItemForm: React.FC<AddItemFormProps> = ({
         onAddTag={onAddTag}
       />
 
+      {type !== 'video' && (
+          <div className="rounded-md border border-zinc-700">
+              <button
+                  type="button"
+                  onClick={() => setShowFilters(!showFilters)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-zinc-300 hover:text-white"
+              >
+                  <SlidersHorizontal size={14} />
+                  Content filters
+              </button>
+              {showFilters && (
+                  <div className="px-3 pb-3 space-y-2">
+                      {FILTER_TOGGLES.map(({ key, label }) => (
+                          <label key={key} className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                              <input
+                                  type="checkbox"
+                                  checked={!!filterToggles[key]}
+                                  onChange={e => setFilterToggles({ ...filterToggles, [key]: e.target.checked })}
+                                  className="accent-blue-500"
+                              />
+                              {label}
+                          </label>
+                      ))}
+                      <div className="grid grid-cols-2 gap-2">
+                          <Input label="Min length (min)" type="number" min="0" step="any" value={minMinutes} onChange={e => setMinMinutes(e.target.value)} placeholder="Any" />
+                          <Input label="Max length (min)" type="number" min="0" step="any" value={maxMinutes} onChange={e => setMaxMinutes(e.target.value)} placeholder="Any" />
+                      </div>
+                      <p className="text-xs text-zinc-500">
+                          Shorts are recognized on YouTube only. Videos whose length or live state is unknown (RSS feeds without an API key) are kept.
+                      </p>
+                  </div>
+              )}
+          </div>
+      )}
+
       <div className="pt-2 flex justify-end gap-2">
         <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
-        <Button type="submit">{initialData ? 'Update' : 'Save'}</Button>
+        <Button type="submit" disabled={!!savingLabel}>{savingLabel || (initialData ? 'Update' : 'Save')}</Button>
       </div>
     </form>
   );
@@ -244,4 +476,144 @@ export const SaveLessonForm: React.FC<SaveLessonFormProps> = ({
             </div>
         </form>
     );
-};
\ No newline at end of file
+};
+interface PassphraseFormProps {
+    description: string;
+    submitLabel?: string;
+    error?: string;
+    onSubmit: (passphrase: string) => void;
+    onClose: () => void;
+}
+
+export const PassphraseForm: React.FC<PassphraseFormProps> = ({ description, submitLabel = 'Unlock', error, onSubmit, onClose }) => {
+    const [passphrase, setPassphrase] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (passphrase) {
+            onSubmit(passphrase);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-zinc-400">{description}</p>
+            <Input 
+                label="Passphrase"
+                type="password"
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+                error={error}
+                autoFocus
+                required
+            />
+            <div className="pt-2 flex justify-end gap-2">
+                <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+                <Button type="submit">{submitLabel}</Button>
+            </div>
+        </form>
+    );
+};
+
+const STORE_LABELS: Record<string, string> = {
+    auth: 'Vault',
+    channels: 'Channels',
+    playlists: 'Playlists',
+    favorites: 'Favorites',
+    watchLater: 'Watch Later',
+    lessons: 'Learning Guides',
+    tags: 'Tags',
+    settings: 'Settings'
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+    add: 'text-green-400',
+    update: 'text-blue-400',
+    skip: 'text-zinc-500'
+};
+
+interface ImportPreviewProps {
+    plan: ImportPlan;
+    issues?: ValidationIssue[];
+    onDownloadIssues?: () => void;
+    onConfirm: () => void;
+    onClose: () => void;
+}
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ plan, issues = [], onDownloadIssues, onConfirm, onClose }) => {
+    const [expandedStore, setExpandedStore] = useState<string | null>(null);
+    const [showIssues, setShowIssues] = useState(false);
+    const summary = backupService.summarize(plan);
+    const changeCount = plan.entries.filter(e => e.action !== 'skip').length;
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-zinc-400">
+                Nothing has been written yet. Items are matched by platform and source ID, so existing entries are updated instead of duplicated.
+            </p>
+
+            <div className="max-h-80 overflow-y-auto space-y-1 scrollbar-thin">
+                {Object.entries(summary).map(([store, counts]) => (
+                    <div key={store} className="border border-zinc-700 rounded-md">
+                        <button
+                            type="button"
+                            onClick={() => setExpandedStore(expandedStore === store ? null : store)}
+                            className="w-full flex items-center justify-between p-2 text-sm text-zinc-300 hover:bg-zinc-800"
+                        >
+                            <span className="font-medium">{STORE_LABELS[store] || store}</span>
+                            <span className="flex gap-3 text-xs">
+                                <span className={ACTION_STYLES.add}>+{counts.add} new</span>
+                                <span className={ACTION_STYLES.update}>{counts.update} updated</span>
+                                <span className={ACTION_STYLES.skip}>{counts.skip} skipped</span>
+                            </span>
+                        </button>
+                        {expandedStore === store && (
+                            <ul className="px-3 pb-2 space-y-1 text-xs">
+                                {plan.entries.filter(e => e.store === store).map((entry, idx) => (
+                                    <li key={idx} className="flex justify-between gap-2">
+                                        <span className="truncate text-zinc-400">{entry.label}</span>
+                                        <span className={`shrink-0 ${ACTION_STYLES[entry.action]}`}>
+                                            {entry.action}{entry.reason ? ` · ${entry.reason}` : ''}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                ))}
+                {plan.entries.length === 0 && <p className="text-sm text-zinc-500 italic">The backup file contains no valid records.</p>}
+            </div>
+
+            {issues.length > 0 && (
+                <div className="border border-red-900/50 bg-red-900/10 rounded-md p-2 text-xs">
+                    <div className="flex items-center justify-between">
+                        <button type="button" onClick={() => setShowIssues(!showIssues)} className="text-red-300 hover:text-red-200">
+                            {issues.length} invalid record{issues.length === 1 ? '' : 's'} quarantined (will not be imported)
+                        </button>
+                        {onDownloadIssues && (
+                            <button type="button" onClick={onDownloadIssues} className="text-zinc-400 hover:text-white">
+                                Download
+                            </button>
+                        )}
+                    </div>
+                    {showIssues && (
+                        <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto scrollbar-thin">
+                            {issues.map((issue, idx) => (
+                                <li key={idx} className="text-zinc-400">
+                                    <span className="text-zinc-300">{STORE_LABELS[issue.store] || issue.store} · {issue.label}:</span> {issue.errors.join(', ')}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="pt-2 flex justify-end gap-2">
+                <Button type="button" variant="secondary" onClick={onClose}>Cancel</Button>
+                <Button type="button" onClick={onConfirm} disabled={changeCount === 0}>
+                    {changeCount === 0 ? 'Nothing to import' : `Import ${changeCount} change${changeCount === 1 ? '' : 's'}`}
+                </Button>
+            </div>
+        </div>
+    );
+};
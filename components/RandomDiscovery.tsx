@@ -4,6 +4,7 @@ import { Sparkles, Play, RotateCcw, Clock, Bookmark, Check, Brain } from 'lucide
 import { MediaItem, VideoItem } from '../types';
 import { dbService } from '../services/db';
 import { mediaResolver } from '../services/mediaResolver';
+import { platformRegistry } from '../services/platforms';
 
 interface RandomDiscoveryProps {
   channels: MediaItem[];
@@ -33,8 +34,7 @@ export const RandomDiscovery: React.FC<RandomDiscoveryProps> = ({ channels, onVi
     setLoading(true);
     try {
       // 1. Check Cache
-      const settings = await dbService.getSettings();
-      const cache = settings?.dashboardCache;
+      const cache = await dbService.getDashboardCache();
       const now = Date.now();
 
       if (!forceRefresh && cache && cache.videos.length > 0 && (now - cache.timestamp < CACHE_DURATION_MS)) {
@@ -51,7 +51,7 @@ export const RandomDiscovery: React.FC<RandomDiscoveryProps> = ({ channels, onVi
 
       await Promise.all(selectedChannels.map(async (channel) => {
         try {
-          const channelVideos = await mediaResolver.getVideos(channel);
+          const { videos: channelVideos } = await mediaResolver.getVideos(channel);
           if (channelVideos.length > 0) {
             newVideos.push(channelVideos[0]);
           }
@@ -62,14 +62,7 @@ export const RandomDiscovery: React.FC<RandomDiscoveryProps> = ({ channels, onVi
 
       // 3. Update Cache in DB
       if (newVideos.length > 0) {
-        const updatedSettings = {
-          ...(settings || {}),
-          dashboardCache: {
-            timestamp: now,
-            videos: newVideos
-          }
-        };
-        await dbService.saveSettings(updatedSettings);
+        await dbService.saveDashboardCache({ timestamp: now, videos: newVideos });
         
         setVideos(newVideos);
         setLastUpdated(now);
@@ -147,7 +140,7 @@ export const RandomDiscovery: React.FC<RandomDiscoveryProps> = ({ channels, onVi
               <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/40 to-transparent p-4 flex flex-col justify-end">
                 <div className="transform translate-y-2 group-hover:translate-y-0 transition-transform duration-300">
                     <div className="flex items-center justify-between mb-1">
-                        <span className="text-[10px] uppercase bg-white/20 px-1.5 rounded text-white backdrop-blur-md">{video.platform}</span>
+                        <span className="text-[10px] uppercase bg-white/20 px-1.5 rounded text-white backdrop-blur-md">{platformRegistry.getName(video.platform)}</span>
                         <div className="flex gap-2">
                              {onLearn && (
                                 <button 
@@ -1,19 +1,29 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { Save, Key, CheckCircle, AlertCircle, Lock, Database, Download, Upload, Globe, Cloud, Youtube, Video, Clock, Loader, Brain } from 'lucide-react';
+import { Save, Key, CheckCircle, AlertCircle, Lock, Database, Download, Upload, Globe, Cloud, Youtube, Video, Clock, Loader, Brain, Shield, History, Trash2, Plus, X } from 'lucide-react';
 import { dbService } from '../services/db';
 import { cryptoService } from '../services/crypto';
+import { vaultService } from '../services/vault';
+import { autoLockService, DEFAULT_AUTO_LOCK_MINUTES } from '../services/autoLock';
 import { youtubeService } from '../services/youtube';
+import { youtubeQuota, KeyUsage, DAILY_QUOTA } from '../services/youtubeQuota';
 import { vimeoService } from '../services/vimeo';
 import { dailymotionService } from '../services/dailymotion';
 import { geminiService } from '../services/gemini';
 import { proxyService } from '../services/proxy';
 import { DEFAULT_PROXY_1, DEFAULT_PROXY_2, DEFAULT_NOMAD_URL } from '../services/proxy';
+import { backupService, BackupFile, EncryptedBackup, ImportPlan } from '../services/backup';
+import { validationService, ValidationIssue } from '../services/validation';
 import { Button } from './Button';
 import { Input } from './Input';
+import { Modal, PassphraseForm, ImportPreview } from './Modals';
+import { AuditEntry } from '../types';
 
 interface SettingsPanelProps {
     sessionKey: CryptoKey;
+    username: string;
+    onSessionKeyChange: (key: CryptoKey) => void;
+    onVaultDeleted: () => void;
 }
 
 const CACHE_OPTIONS = [
@@ -23,9 +33,29 @@ const CACHE_OPTIONS = [
     { label: '1 Week', value: 7 * 24 * 60 * 60 * 1000 },
 ];
 
-export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
+const WIPE_OPTIONS = [
+    { label: 'Never', value: 0 },
+    { label: '5 Failures', value: 5 },
+    { label: '10 Failures', value: 10 },
+    { label: '20 Failures', value: 20 },
+];
+
+const AUDIT_LABELS: Record<AuditEntry['event'], string> = {
+    unlock_success: 'Unlocked',
+    unlock_failure: 'Failed unlock'
+};
+
+const AUTO_LOCK_OPTIONS = [
+    { label: 'Never', value: 0 },
+    { label: '5 Min', value: 5 },
+    { label: '15 Min', value: 15 },
+    { label: '1 Hour', value: 60 },
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey, username, onSessionKeyChange, onVaultDeleted }) => {
   // Platform Credentials
-  const [apiKey, setApiKey] = useState('');
+  const [apiKeys, setApiKeys] = useState<string[]>(['']); // YouTube keys, used in order as quotas run out
+  const [quotaUsage, setQuotaUsage] = useState<KeyUsage[]>([]);
   const [vimeoToken, setVimeoToken] = useState('');
   const [dailymotionToken, setDailymotionToken] = useState('');
   const [geminiKey, setGeminiKey] = useState('');
@@ -44,6 +74,34 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
   // Cache
   const [cacheDuration, setCacheDuration] = useState(CACHE_OPTIONS[0].value);
 
+  // Vault Password
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+
+  // Recovery Key
+  const [recoveryPassword, setRecoveryPassword] = useState('');
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
+  const [recoveryStatus, setRecoveryStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [recoveryMsg, setRecoveryMsg] = useState('');
+
+  // Delete Vault
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+
+  // Auto-Lock
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [lockOnHide, setLockOnHide] = useState(false);
+
+  // Unlock Audit
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [wipeAfterFailures, setWipeAfterFailures] = useState(0);
+
+  // Library Encryption
+  const [libraryEncrypted, setLibraryEncrypted] = useState(dbService.isLibraryEncrypted());
+  const [migratingLibrary, setMigratingLibrary] = useState(false);
+
   // Status States
   const [loading, setLoading] = useState(true);
   const [credsStatus, setCredsStatus] = useState<'idle' | 'success' | 'error'>('idle');
@@ -52,6 +110,19 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
   const [proxyMsg, setProxyMsg] = useState('');
   const [backupStatus, setBackupStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [backupMsg, setBackupMsg] = useState('');
+  const [passwordStatus, setPasswordStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [passwordMsg, setPasswordMsg] = useState('');
+  const [libraryStatus, setLibraryStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [libraryMsg, setLibraryMsg] = useState('');
+
+  // Encrypted Backups
+  const [encryptExport, setEncryptExport] = useState(true);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<EncryptedBackup | null>(null);
+  const [passphraseError, setPassphraseError] = useState('');
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [importIssues, setImportIssues] = useState<ValidationIssue[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -64,7 +135,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
       const settings = await dbService.getSettings();
       
       // Decrypt Credentials
-      if (settings?.apiKey) setApiKey(await cryptoService.decryptData(settings.apiKey, sessionKey));
+      if (settings?.apiKey) setApiKeys((await cryptoService.decryptData(settings.apiKey, sessionKey)).split('\n'));
+      await refreshQuota();
       if (settings?.vimeoToken) setVimeoToken(await cryptoService.decryptData(settings.vimeoToken, sessionKey));
       if (settings?.dailymotionToken) setDailymotionToken(await cryptoService.decryptData(settings.dailymotionToken, sessionKey));
       if (settings?.geminiApiKey) setGeminiKey(await cryptoService.decryptData(settings.geminiApiKey, sessionKey));
@@ -83,6 +155,14 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
           setCacheDuration(settings.feedCacheDuration);
       }
 
+      // Load Auto-Lock
+      setAutoLockMinutes(settings?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES);
+      setLockOnHide(!!settings?.lockOnHide);
+
+      // Load Unlock Audit
+      setWipeAfterFailures(settings?.wipeAfterFailures || 0);
+      setAuditLog(await dbService.getAuditLog());
+
     } catch (e) {
       console.error(e);
       setCredsStatus('error');
@@ -92,6 +172,15 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
     }
   };
 
+  const refreshQuota = async () => {
+      await youtubeQuota.load(youtubeService.getApiKeys());
+      setQuotaUsage(youtubeQuota.getUsage(youtubeService.getApiKeys()));
+  };
+
+  const updateApiKey = (index: number, value: string) => {
+      setApiKeys(apiKeys.map((k, i) => i === index ? value : k));
+  };
+
   const handleSaveCredentials = async (e: React.FormEvent) => {
     e.preventDefault();
     setCredsStatus('idle');
@@ -99,8 +188,9 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
     try {
         const settings = await dbService.getSettings() || {};
         
-        // Encrypt all optional fields
-        const encApiKey = apiKey.trim() ? await cryptoService.encryptData(apiKey.trim(), sessionKey) : undefined;
+        // Encrypt all optional fields (YouTube keys share one field, one per line)
+        const apiKey = apiKeys.map(k => k.trim()).filter(k => k).join('\n');
+        const encApiKey = apiKey ? await cryptoService.encryptData(apiKey, sessionKey) : undefined;
         const encVimeo = vimeoToken.trim() ? await cryptoService.encryptData(vimeoToken.trim(), sessionKey) : undefined;
         const encDaily = dailymotionToken.trim() ? await cryptoService.encryptData(dailymotionToken.trim(), sessionKey) : undefined;
         const encGemini = geminiKey.trim() ? await cryptoService.encryptData(geminiKey.trim(), sessionKey) : undefined;
@@ -114,11 +204,13 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
         });
         
         // Update Services immediately
-        youtubeService.setApiKey(apiKey.trim());
+        youtubeService.setApiKey(apiKey);
         vimeoService.setToken(vimeoToken.trim());
         dailymotionService.setToken(dailymotionToken.trim());
         geminiService.setApiKey(geminiKey.trim());
 
+        await refreshQuota();
+
         setCredsStatus('success');
         setCredsMsg('Platform credentials encrypted and saved.');
     } catch (error: any) {
@@ -189,54 +281,242 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
       }
   };
 
-  // ... Import/Export logic remains same as previous ...
+  const handleAutoLockChange = async (minutes: number, onHide: boolean) => {
+      setAutoLockMinutes(minutes);
+      setLockOnHide(onHide);
+      autoLockService.configure({ autoLockMinutes: minutes, lockOnHide: onHide });
+      try {
+          const settings = await dbService.getSettings() || {};
+          await dbService.saveSettings({
+              ...settings,
+              autoLockMinutes: minutes,
+              lockOnHide: onHide
+          });
+      } catch (e) {
+          console.error("Failed to save auto-lock setting", e);
+      }
+  };
+
+  const handleWipeChange = async (failures: number) => {
+      setWipeAfterFailures(failures);
+      try {
+          const settings = await dbService.getSettings() || {};
+          await dbService.saveSettings({
+              ...settings,
+              wipeAfterFailures: failures
+          });
+      } catch (e) {
+          console.error("Failed to save wipe setting", e);
+      }
+  };
+
+  const handleToggleLibraryEncryption = async () => {
+      const enable = !libraryEncrypted;
+      setLibraryStatus('idle');
+      setMigratingLibrary(true);
+      try {
+          await dbService.setLibraryEncryption(enable);
+          setLibraryEncrypted(enable);
+          setLibraryStatus('success');
+          setLibraryMsg(enable 
+              ? 'Library encrypted. Channels, playlists, favorites, watch later and lessons are now sealed with your vault key.' 
+              : 'Library encryption disabled. Records are stored in clear text again.');
+      } catch (error: any) {
+          setLibraryStatus('error');
+          setLibraryMsg('Migration failed, library left unchanged: ' + (error.message || error));
+      } finally {
+          setMigratingLibrary(false);
+      }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setPasswordStatus('idle');
+
+      if (newPassword !== confirmPassword) {
+          setPasswordStatus('error');
+          setPasswordMsg('New passwords do not match.');
+          return;
+      }
+      if (newPassword === currentPassword) {
+          setPasswordStatus('error');
+          setPasswordMsg('New password must be different from the current one.');
+          return;
+      }
+
+      setChangingPassword(true);
+      try {
+          const newKey = await vaultService.changePassword(username, currentPassword, newPassword);
+          setCurrentPassword('');
+          setNewPassword('');
+          setConfirmPassword('');
+          setPasswordStatus('success');
+          setPasswordMsg('Password changed. Your data key is now protected by the new password.');
+          onSessionKeyChange(newKey);
+      } catch (error: any) {
+          setPasswordStatus('error');
+          setPasswordMsg(error.message || 'Failed to change password.');
+      } finally {
+          setChangingPassword(false);
+      }
+  };
+
+  const handleCreateRecoveryKey = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setRecoveryStatus('idle');
+      setNewRecoveryKey(null);
+      try {
+          const key = await vaultService.createRecoveryKey(username, recoveryPassword);
+          setRecoveryPassword('');
+          setNewRecoveryKey(key);
+          setRecoveryStatus('success');
+          setRecoveryMsg('New recovery key created. Any previous recovery key no longer works.');
+      } catch (error: any) {
+          setRecoveryStatus('error');
+          setRecoveryMsg(error.message || 'Failed to create recovery key.');
+      }
+  };
+
+  const handleDeleteVault = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setDeleteError('');
+      if (!window.confirm(`Permanently delete the vault "${username}" and everything in it? This cannot be undone.`)) return;
+
+      try {
+          await vaultService.deleteVault(username, deletePassword);
+          onVaultDeleted();
+      } catch (error: any) {
+          setDeleteError(error.message || 'Failed to delete vault.');
+      }
+  };
+
+  const downloadJson = (data: unknown, filename: string) => {
+      const jsonString = JSON.stringify(data, null, 2);
+      const blob = new Blob([jsonString], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  };
+
   const handleExport = async () => {
+      setBackupStatus('idle');
+
+      if (encryptExport) {
+          if (exportPassphrase.length < 8) {
+              setBackupStatus('error');
+              setBackupMsg('Backup passphrase must be at least 8 characters.');
+              return;
+          }
+          if (exportPassphrase !== exportPassphraseConfirm) {
+              setBackupStatus('error');
+              setBackupMsg('Backup passphrases do not match.');
+              return;
+          }
+      }
+
       try {
-          const data = await dbService.exportFullDB();
-          const jsonString = JSON.stringify(data, null, 2);
-          const blob = new Blob([jsonString], { type: "application/json" });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `nomad-backup-${new Date().toISOString().split('T')[0]}.json`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
+          const data = backupService.createBackupFile(await dbService.exportFullDB());
+          const date = new Date().toISOString().split('T')[0];
+
+          if (encryptExport) {
+              const encrypted = await backupService.encryptBackup(data, exportPassphrase);
+              downloadJson(encrypted, `nomad-backup-${date}.encrypted.json`);
+              setExportPassphrase('');
+              setExportPassphraseConfirm('');
+              setBackupMsg('Encrypted backup exported. Keep the passphrase safe, it cannot be recovered.');
+          } else {
+              downloadJson(data, `nomad-backup-${date}.json`);
+              setBackupMsg('Database exported successfully.');
+          }
           setBackupStatus('success');
-          setBackupMsg('Database exported successfully.');
       } catch (e: any) {
           setBackupStatus('error');
           setBackupMsg('Export failed: ' + e.message);
       }
   };
 
+  // Dry run: validate, compute the merge against current data and let the user review it first
+  const previewBackupFile = async (file: BackupFile) => {
+      const report = validationService.validateBackup(file);
+      const existing = await dbService.exportFullDB();
+      setImportIssues(report.issues);
+      setImportPlan(backupService.planImport(existing, report.data));
+  };
+
+  const handleDownloadQuarantine = () => {
+      const date = new Date().toISOString().split('T')[0];
+      downloadJson(importIssues, `nomad-backup-${date}.rejected.json`);
+  };
+
+  const handleConfirmImport = async () => {
+      if (!importPlan) return;
+      const plan = importPlan;
+      setImportPlan(null);
+      try {
+          await dbService.applyImportPlan(plan);
+          setBackupStatus('success');
+          setBackupMsg('Backup merged into your library. Reload required.');
+      } catch (err: any) {
+          setBackupStatus('error');
+          setBackupMsg('Import failed: ' + (err?.message || 'Transaction aborted.'));
+      }
+  };
+
   const handleImportClick = () => fileInputRef.current?.click();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
-      if (!window.confirm("Warning: This will merge the backup with current data. Continue?")) {
-          e.target.value = '';
-          return;
-      }
+      setBackupStatus('idle');
       const reader = new FileReader();
       reader.onload = async (event) => {
           try {
               const json = event.target?.result as string;
               const data = JSON.parse(json);
-              await dbService.importFullDB(data);
-              setBackupStatus('success');
-              setBackupMsg('Database imported. Reload required.');
+
+              // Encrypted backups need the passphrase before anything is written
+              if (backupService.isEncryptedBackup(data)) {
+                  setPassphraseError('');
+                  setPendingBackup(data);
+                  return;
+              }
+
+              await previewBackupFile(backupService.readBackupFile(data));
           } catch (err: any) {
               setBackupStatus('error');
-              setBackupMsg('Import failed: Invalid file.');
+              setBackupMsg(err instanceof SyntaxError ? 'Import failed: Invalid file.' : 'Import failed: ' + err.message);
           }
       };
       reader.readAsText(file);
       e.target.value = '';
   };
 
+  const handleDecryptImport = async (passphrase: string) => {
+      if (!pendingBackup) return;
+      setPassphraseError('');
+
+      let data: BackupFile;
+      try {
+          data = await backupService.decryptBackup(pendingBackup, passphrase);
+      } catch (err: any) {
+          setPassphraseError(err.message);
+          return;
+      }
+
+      setPendingBackup(null);
+      try {
+          await previewBackupFile(data);
+      } catch (err: any) {
+          setBackupStatus('error');
+          setBackupMsg('Import failed: ' + (err.message || 'Invalid file.'));
+      }
+  };
+
   if (loading) return <div>Loading secure settings...</div>;
 
   return (
@@ -265,14 +545,52 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
                         <div className="space-y-4">
                              <div>
                                 <label className="flex items-center gap-2 text-sm font-medium text-zinc-300 mb-1">
-                                    <Youtube size={14} className="text-red-500" /> YouTube API Key
+                                    <Youtube size={14} className="text-red-500" /> YouTube API Keys
                                 </label>
-                                <Input 
-                                    value={apiKey}
-                                    onChange={e => setApiKey(e.target.value)}
-                                    placeholder="AIzaSy..."
-                                    type="password"
-                                />
+                                <div className="space-y-2">
+                                    {apiKeys.map((key, index) => (
+                                        <div key={index} className="flex items-center gap-2">
+                                            <Input 
+                                                value={key}
+                                                onChange={e => updateApiKey(index, e.target.value)}
+                                                placeholder={index === 0 ? 'AIzaSy...' : 'Backup key, used when the previous ones run out of quota'}
+                                                type="password"
+                                            />
+                                            {apiKeys.length > 1 && (
+                                                <button type="button" onClick={() => setApiKeys(apiKeys.filter((_, i) => i !== index))} className="text-zinc-500 hover:text-white" title="Remove key">
+                                                    <X size={16} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                                <button type="button" onClick={() => setApiKeys([...apiKeys, ''])} className="mt-2 flex items-center gap-1 text-xs text-zinc-400 hover:text-white">
+                                    <Plus size={12} /> Add another key
+                                </button>
+
+                                {quotaUsage.length > 0 && (
+                                    <div className="mt-3 p-3 rounded-lg bg-zinc-900 border border-zinc-800 space-y-2">
+                                        {quotaUsage.map(usage => (
+                                            <div key={usage.label} className="space-y-1">
+                                                <div className="flex justify-between text-xs">
+                                                    <span className="font-mono text-zinc-400">Key {usage.hint}</span>
+                                                    <span className={usage.exhausted ? 'text-red-400' : 'text-zinc-400'}>
+                                                        {usage.exhausted ? 'Quota exceeded' : `~${usage.used.toLocaleString()} / ${DAILY_QUOTA.toLocaleString()} units`}
+                                                    </span>
+                                                </div>
+                                                <div className="h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                                                    <div
+                                                        className={`h-full ${usage.exhausted ? 'bg-red-500' : 'bg-primary'}`}
+                                                        style={{ width: `${usage.exhausted ? 100 : Math.min(100, usage.used / DAILY_QUOTA * 100)}%` }}
+                                                    />
+                                                </div>
+                                            </div>
+                                        ))}
+                                        <p className="text-xs text-zinc-500">
+                                            Estimated from the calls made by this vault. Quotas reset at midnight Pacific time (in {Math.ceil(youtubeQuota.msUntilReset() / 3600000)}h).
+                                        </p>
+                                    </div>
+                                )}
                              </div>
                              <div>
                                 <label className="flex items-center gap-2 text-sm font-medium text-zinc-300 mb-1">
@@ -468,7 +786,243 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
           </div>
       </div>
 
-      {/* 4. Data Backup */}
+      {/* 4. Auto-Lock */}
+      <div className="bg-surface border border-zinc-700 rounded-xl p-6">
+          <div className="flex items-start gap-4">
+              <div className="bg-zinc-900 p-3 rounded-lg text-green-400">
+                  <Clock size={24} />
+              </div>
+              <div className="flex-1 space-y-4">
+                  <h3 className="text-lg font-medium text-white">Auto-Lock</h3>
+                  <p className="text-sm text-zinc-400">
+                      Lock the vault after a period without activity. Locking wipes the session key and decrypted keys from memory, 
+                      you return to the same view after unlocking.
+                  </p>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      {AUTO_LOCK_OPTIONS.map((opt) => {
+                          const isSelected = autoLockMinutes === opt.value;
+                          return (
+                              <button
+                                  key={opt.label}
+                                  type="button"
+                                  onClick={() => handleAutoLockChange(opt.value, lockOnHide)}
+                                  className={`py-3 flex items-center justify-center rounded-xl border-2 transition-all font-semibold ${
+                                      isSelected 
+                                      ? 'bg-green-600 border-green-500 text-white shadow-lg shadow-green-900/20' 
+                                      : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:border-zinc-500 hover:text-zinc-200'
+                                  }`}
+                              >
+                                  {opt.label}
+                              </button>
+                          )
+                      })}
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                      <input 
+                          type="checkbox" 
+                          checked={lockOnHide} 
+                          onChange={e => handleAutoLockChange(autoLockMinutes, e.target.checked)}
+                          className="accent-green-500"
+                      />
+                      Lock immediately when the tab is hidden or minimized
+                  </label>
+              </div>
+          </div>
+      </div>
+
+      {/* 5. Unlock Activity */}
+      <div className="bg-surface border border-zinc-700 rounded-xl p-6">
+          <div className="flex items-start gap-4">
+              <div className="bg-zinc-900 p-3 rounded-lg text-green-400">
+                  <History size={24} />
+              </div>
+              <div className="flex-1 space-y-4">
+                  <h3 className="text-lg font-medium text-white">Unlock Activity</h3>
+                  <p className="text-sm text-zinc-400">
+                      Every unlock attempt on this device. Repeated failures slow down further attempts, 
+                      and can optionally erase the vault entirely.
+                  </p>
+
+                  <div className="max-h-64 overflow-y-auto rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+                      {auditLog.length === 0 && (
+                          <div className="p-3 text-sm text-zinc-500">No unlock attempts recorded yet.</div>
+                      )}
+                      {auditLog.slice(0, 50).map(entry => (
+                          <div key={entry.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                              <div className={`flex items-center gap-2 ${entry.event === 'unlock_success' ? 'text-green-400' : 'text-red-400'}`}>
+                                  {entry.event === 'unlock_success' ? <CheckCircle size={14} /> : <AlertCircle size={14} />}
+                                  <span>{AUDIT_LABELS[entry.event]}</span>
+                                  <span className="text-zinc-500 truncate">{entry.username}{entry.detail ? ` · ${entry.detail}` : ''}</span>
+                              </div>
+                              <span className="text-xs text-zinc-500 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                          </div>
+                      ))}
+                  </div>
+
+                  <div className="space-y-2">
+                      <p className="text-sm font-medium text-zinc-300">Erase vault after consecutive failed unlocks</p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          {WIPE_OPTIONS.map((opt) => {
+                              const isSelected = wipeAfterFailures === opt.value;
+                              return (
+                                  <button
+                                      key={opt.label}
+                                      type="button"
+                                      onClick={() => handleWipeChange(opt.value)}
+                                      className={`py-3 flex items-center justify-center rounded-xl border-2 transition-all font-semibold ${
+                                          isSelected 
+                                          ? 'bg-red-600 border-red-500 text-white shadow-lg shadow-red-900/20' 
+                                          : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:border-zinc-500 hover:text-zinc-200'
+                                      }`}
+                                  >
+                                      {opt.label}
+                                  </button>
+                              )
+                          })}
+                      </div>
+                      {wipeAfterFailures > 0 && (
+                          <p className="text-xs text-red-400">
+                              Everything in this vault is permanently deleted after {wipeAfterFailures} wrong passwords in a row. Keep an exported backup.
+                          </p>
+                      )}
+                  </div>
+              </div>
+          </div>
+      </div>
+
+      {/* 6. Library Encryption */}
+      <div className="bg-surface border border-zinc-700 rounded-xl p-6">
+          <div className="flex items-start gap-4">
+              <div className="bg-zinc-900 p-3 rounded-lg text-green-400">
+                  <Lock size={24} />
+              </div>
+              <div className="flex-1 space-y-4">
+                  <h3 className="text-lg font-medium text-white">Library Encryption</h3>
+                  <p className="text-sm text-zinc-400">
+                      Encrypt channels, playlists, favorites, watch later, lessons and cached feeds at rest with your vault key. 
+                      Only the fields IndexedDB needs for lookups (names of channels, favorite tags, lesson video ids) stay readable.
+                      Local video files are copied to the browser's file storage as they are and are not covered.
+                  </p>
+
+                  {libraryStatus !== 'idle' && (
+                      <div className={`flex items-center gap-2 text-sm p-3 rounded-md ${libraryStatus === 'success' ? 'bg-green-900/20 text-green-400 border border-green-900' : 'bg-red-900/20 text-red-400 border border-red-900'}`}>
+                          {libraryStatus === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+                          {libraryMsg}
+                      </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                      <span className={`text-sm font-medium ${libraryEncrypted ? 'text-green-400' : 'text-zinc-500'}`}>
+                          {libraryEncrypted ? 'Enabled' : 'Disabled'}
+                      </span>
+                      <Button type="button" variant="secondary" onClick={handleToggleLibraryEncryption} disabled={migratingLibrary}>
+                          {migratingLibrary ? 'Migrating...' : libraryEncrypted ? 'Disable Encryption' : 'Encrypt Library'}
+                      </Button>
+                  </div>
+              </div>
+          </div>
+      </div>
+
+      {/* 7. Vault Security */}
+      <div className="bg-surface border border-zinc-700 rounded-xl p-6">
+            <form onSubmit={handleChangePassword} className="space-y-6">
+                <div className="flex items-start gap-4">
+                    <div className="bg-zinc-900 p-3 rounded-lg text-green-400">
+                        <Shield size={24} />
+                    </div>
+                    <div className="flex-1 space-y-4">
+                        <h3 className="text-lg font-medium text-white">Vault Password</h3>
+                        <p className="text-sm text-zinc-400">
+                            Your data is encrypted with a random data key. Changing the password re-wraps that key, nothing has to be re-encrypted.
+                        </p>
+
+                        <Input 
+                            type="password"
+                            value={currentPassword}
+                            onChange={e => setCurrentPassword(e.target.value)}
+                            label="Current Password"
+                            required
+                        />
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <Input 
+                                type="password"
+                                value={newPassword}
+                                onChange={e => setNewPassword(e.target.value)}
+                                label="New Password"
+                                required
+                            />
+                            <Input 
+                                type="password"
+                                value={confirmPassword}
+                                onChange={e => setConfirmPassword(e.target.value)}
+                                label="Confirm New Password"
+                                required
+                            />
+                        </div>
+
+                        {passwordStatus !== 'idle' && (
+                            <div className={`flex items-center gap-2 text-sm p-3 rounded-md ${passwordStatus === 'success' ? 'bg-green-900/20 text-green-400 border border-green-900' : 'bg-red-900/20 text-red-400 border border-red-900'}`}>
+                                {passwordStatus === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+                                {passwordMsg}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <Button type="submit" variant="secondary" disabled={changingPassword}>
+                                {changingPassword ? 'Re-encrypting...' : 'Change Password'}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </form>
+      </div>
+
+      {/* 8. Recovery Key */}
+      <div className="bg-surface border border-zinc-700 rounded-xl p-6">
+            <form onSubmit={handleCreateRecoveryKey} className="space-y-6">
+                <div className="flex items-start gap-4">
+                    <div className="bg-zinc-900 p-3 rounded-lg text-yellow-500">
+                        <Key size={24} />
+                    </div>
+                    <div className="flex-1 space-y-4">
+                        <h3 className="text-lg font-medium text-white">Recovery Key</h3>
+                        <p className="text-sm text-zinc-400">
+                            A recovery key unlocks the vault and lets you set a new password if you forget yours. 
+                            Creating a new one replaces the previous key.
+                        </p>
+
+                        <Input 
+                            type="password"
+                            value={recoveryPassword}
+                            onChange={e => setRecoveryPassword(e.target.value)}
+                            label="Current Password"
+                            required
+                        />
+
+                        {newRecoveryKey && (
+                            <div className="font-mono text-center text-white bg-zinc-900 border border-zinc-700 rounded-md p-3 break-all select-all">
+                                {newRecoveryKey}
+                            </div>
+                        )}
+
+                        {recoveryStatus !== 'idle' && (
+                            <div className={`flex items-center gap-2 text-sm p-3 rounded-md ${recoveryStatus === 'success' ? 'bg-green-900/20 text-green-400 border border-green-900' : 'bg-red-900/20 text-red-400 border border-red-900'}`}>
+                                {recoveryStatus === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+                                {recoveryMsg}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <Button type="submit" variant="secondary">Create New Recovery Key</Button>
+                        </div>
+                    </div>
+                </div>
+            </form>
+      </div>
+
+      {/* 9. Data Backup */}
       <div className="bg-surface border border-zinc-700 rounded-xl p-6">
              <div className="flex items-start gap-4">
                 <div className="bg-zinc-900 p-3 rounded-lg text-purple-400">
@@ -477,9 +1031,39 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
                 <div className="flex-1">
                     <h3 className="text-lg font-medium text-white mb-1">Data Backup</h3>
                     <p className="text-sm text-zinc-400 mb-6">
-                        Export your channels and settings (excluding encrypted keys for security) to JSON.
+                        Export your channels, lessons and settings to JSON. Vault credentials are never exported, but your library is readable in a plain backup, so encrypting it with a passphrase is recommended.
                     </p>
 
+                    <div className="mb-6 space-y-3">
+                        <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                            <input 
+                                type="checkbox"
+                                checked={encryptExport}
+                                onChange={e => setEncryptExport(e.target.checked)}
+                                className="accent-purple-500"
+                            />
+                            <Lock size={14} className="text-purple-400" /> Encrypt backup with a passphrase (AES-GCM)
+                        </label>
+                        {encryptExport && (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <Input 
+                                    type="password"
+                                    value={exportPassphrase}
+                                    onChange={e => setExportPassphrase(e.target.value)}
+                                    placeholder="At least 8 characters"
+                                    label="Backup Passphrase"
+                                />
+                                <Input 
+                                    type="password"
+                                    value={exportPassphraseConfirm}
+                                    onChange={e => setExportPassphraseConfirm(e.target.value)}
+                                    placeholder="Repeat passphrase"
+                                    label="Confirm Passphrase"
+                                />
+                            </div>
+                        )}
+                    </div>
+
                     <div className="flex flex-col sm:flex-row gap-4">
                         <Button variant="secondary" onClick={handleExport} className="flex-1">
                             <Download size={16} className="mr-2" /> Export
@@ -505,6 +1089,67 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ sessionKey }) => {
                 </div>
              </div>
       </div>
+
+      {/* 10. Delete Vault */}
+      <div className="bg-surface border border-red-900/50 rounded-xl p-6">
+            <form onSubmit={handleDeleteVault} className="space-y-6">
+                <div className="flex items-start gap-4">
+                    <div className="bg-zinc-900 p-3 rounded-lg text-red-500">
+                        <Trash2 size={24} />
+                    </div>
+                    <div className="flex-1 space-y-4">
+                        <h3 className="text-lg font-medium text-white">Delete Vault</h3>
+                        <p className="text-sm text-zinc-400">
+                            Permanently removes the vault <strong className="text-zinc-200">{username}</strong> from this device, including its library, settings and unlock history. 
+                            Other vaults are not affected.
+                        </p>
+
+                        <Input 
+                            type="password"
+                            value={deletePassword}
+                            onChange={e => setDeletePassword(e.target.value)}
+                            label="Current Password"
+                            required
+                        />
+
+                        {deleteError && (
+                            <div className="flex items-center gap-2 text-sm p-3 rounded-md bg-red-900/20 text-red-400 border border-red-900">
+                                <AlertCircle size={16} />
+                                {deleteError}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <Button type="submit" variant="danger">Delete Vault</Button>
+                        </div>
+                    </div>
+                </div>
+            </form>
+      </div>
+
+      <Modal isOpen={!!pendingBackup} onClose={() => setPendingBackup(null)} title="Encrypted Backup">
+        {pendingBackup && (
+            <PassphraseForm 
+                description={`This backup was encrypted on ${new Date(pendingBackup.createdAt).toLocaleString()}. Enter its passphrase to verify and preview it.`}
+                submitLabel="Decrypt & Preview"
+                error={passphraseError}
+                onSubmit={handleDecryptImport}
+                onClose={() => setPendingBackup(null)}
+            />
+        )}
+      </Modal>
+
+      <Modal isOpen={!!importPlan} onClose={() => setImportPlan(null)} title="Import Preview">
+        {importPlan && (
+            <ImportPreview 
+                plan={importPlan}
+                issues={importIssues}
+                onDownloadIssues={handleDownloadQuarantine}
+                onConfirm={handleConfirmImport}
+                onClose={() => setImportPlan(null)}
+            />
+        )}
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { VideoItem } from '../types';
+import { mediaResolver } from '../services/mediaResolver';
+import { streamingService } from '../services/streaming';
+import { platformRegistry } from '../services/platforms';
+import { autoLockService } from '../services/autoLock';
+
+interface VideoPlayerProps {
+  video: VideoItem;
+  className?: string;
+}
+
+interface NativePlayerProps {
+  src: string;
+  title: string;
+  poster?: string;
+  className: string;
+}
+
+/**
+ * <video> element for direct files, with HLS/DASH attached through Media Source Extensions.
+ */
+const NativePlayer: React.FC<NativePlayerProps> = ({ src, title, poster, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setError(null);
+    let cleanup: (() => void) | null = null;
+    let cancelled = false;
+
+    streamingService.attach(video, src, setError)
+      .then(release => {
+        // The source changed while the streaming engine was loading
+        if (cancelled) release();
+        else cleanup = release;
+      })
+      .catch((e: any) => !cancelled && setError(e.message || 'Playback failed.'));
+
+    return () => {
+      cancelled = true;
+      cleanup?.();
+    };
+  }, [src]);
+
+  return (
+    <div className={`${className} relative bg-black`}>
+      <video
+        ref={videoRef}
+        className="w-full h-full"
+        poster={poster || undefined}
+        title={title}
+        onError={() => setError('This media file could not be played.')}
+        controls
+        autoPlay
+        playsInline
+      />
+      {error && (
+        <div className="absolute top-2 left-2 right-2 p-2 rounded bg-red-900/80 border border-red-700 text-red-100 text-xs">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Native player for sources that resolve their media URL at playback time (local files).
+ */
+const ResolvedPlayer: React.FC<{ video: VideoItem; className: string }> = ({ video, className }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setError(null);
+
+    platformRegistry.get(video.platform).resolveMediaUrl!(video.id)
+      .then(url => !cancelled && setSrc(url))
+      .catch((e: any) => !cancelled && setError(e.message || 'Media unavailable.'));
+
+    return () => { cancelled = true; };
+  }, [video.platform, video.id]);
+
+  if (src) return <NativePlayer src={src} title={video.title} poster={video.thumbnail} className={className} />;
+
+  return (
+    <div className={`${className} flex items-center justify-center text-sm ${error ? 'text-red-400' : 'text-zinc-500'}`}>
+      {error || 'Loading media...'}
+    </div>
+  );
+};
+
+/**
+ * Platform embed. Its playback can't be observed, so the vault doesn't auto-lock while it is open.
+ */
+const EmbedPlayer: React.FC<{ src: string; title: string; className: string }> = ({ src, title, className }) => {
+  useEffect(() => autoLockService.holdForEmbed(), []);
+
+  return (
+    <iframe
+      className={className}
+      src={src}
+      title={title}
+      frameBorder="0"
+      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+      allowFullScreen
+    />
+  );
+};
+
+/**
+ * Shared player for every playback surface.
+ * Direct media URLs (files, HLS, DASH) play natively, everything else through the platform's embed.
+ */
+export const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, className = 'w-full h-full' }) => {
+  if (streamingService.isDirectMedia(video.mediaUrl)) {
+    return <NativePlayer src={video.mediaUrl!} title={video.title} poster={video.thumbnail} className={className} />;
+  }
+
+  if (!video.mediaUrl && platformRegistry.get(video.platform).resolveMediaUrl) {
+    return <ResolvedPlayer video={video} className={className} />;
+  }
+
+  const embedUrl = mediaResolver.getEmbedUrl({ platform: video.platform, sourceId: video.id, instance: video.instance });
+
+  if (embedUrl) {
+    return <EmbedPlayer src={embedUrl} title={video.title} className={className} />;
+  }
+
+  // Media URL without a recognizable extension: let the browser try it
+  if (video.mediaUrl) {
+    return <NativePlayer src={video.mediaUrl} title={video.title} poster={video.thumbnail} className={className} />;
+  }
+
+  return (
+    <div className={`${className} flex flex-col items-center justify-center gap-2 text-zinc-400 text-sm`}>
+      <span>No playable media for this entry.</span>
+      {video.link && (
+        <a href={video.link} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+          Open original <ExternalLink size={14} />
+        </a>
+      )}
+    </div>
+  );
+};
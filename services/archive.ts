@@ -0,0 +1,162 @@
+import { MediaItem, VideoItem } from '../types';
+import { PlatformProvider, VideoPage } from './platforms';
+
+// Internet Archive public JSON endpoints (CORS enabled, no key needed)
+const BASE_URL = 'https://archive.org';
+const PAGE_SIZE = 50;
+
+// Derivative formats the Archive generates for uploaded videos, best browser support first
+const PLAYABLE_FORMATS = ['h.264', 'h.264 hd', 'mpeg4', '512kb mpeg4', 'ogg video', 'webm'];
+
+const downloadUrl = (identifier: string, fileName: string) => {
+    return `${BASE_URL}/download/${identifier}/${fileName.split('/').map(encodeURIComponent).join('/')}`;
+};
+
+const firstValue = (value: any): string => {
+    // Metadata fields are either a string or a list of strings
+    return (Array.isArray(value) ? value[0] : value) || '';
+};
+
+const stripHtml = (value: any) => firstValue(value).replace(/<[^>]*>/g, '').slice(0, 300);
+
+const toIsoDate = (value: any): string => {
+    const date = new Date(firstValue(value));
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+export const archiveService = {
+
+    /**
+     * `cursor` is the advancedsearch page number of a collection.
+     */
+    async getVideos(item: MediaItem, cursor?: string): Promise<VideoPage> {
+        if (item.type === 'video') {
+            return { videos: [await this.fetchItem(item.sourceId)] };
+        }
+
+        // 1. Collections: list member items through advancedsearch
+        const page = Number(cursor) || 1;
+        const members = await this.fetchCollection(item.sourceId, page);
+        if (members.videos.length > 0 || cursor) return members;
+
+        // 2. A single item holding several videos (series, lecture sets): list its files
+        return { videos: await this.fetchItemFiles(item.sourceId) };
+    },
+
+    async fetchMetadata(identifier: string): Promise<any> {
+        const res = await fetch(`${BASE_URL}/metadata/${encodeURIComponent(identifier)}`);
+        if (!res.ok) throw new Error('Internet Archive metadata unavailable');
+        const data = await res.json();
+        // Unknown identifiers return an empty object instead of a 404
+        if (!data.metadata) throw new Error(`Internet Archive item "${identifier}" not found`);
+        return data;
+    },
+
+    /**
+     * Picks the playable derivative of each original video file.
+     */
+    playableFiles(files: any[]): any[] {
+        const byOriginal = new Map<string, any>();
+        files
+            .filter(f => PLAYABLE_FORMATS.includes(String(f.format || '').toLowerCase()))
+            .sort((a, b) => PLAYABLE_FORMATS.indexOf(a.format.toLowerCase()) - PLAYABLE_FORMATS.indexOf(b.format.toLowerCase()))
+            .forEach(f => {
+                const key = f.original || f.name;
+                if (!byOriginal.has(key)) byOriginal.set(key, f);
+            });
+        return Array.from(byOriginal.values());
+    },
+
+    async fetchItem(identifier: string): Promise<VideoItem> {
+        const data = await this.fetchMetadata(identifier);
+        const meta = data.metadata;
+        const file = this.playableFiles(data.files || [])[0];
+
+        return {
+            id: identifier,
+            title: firstValue(meta.title) || identifier,
+            description: stripHtml(meta.description),
+            thumbnail: `${BASE_URL}/services/img/${identifier}`,
+            author: firstValue(meta.creator) || 'Internet Archive',
+            pubDate: toIsoDate(meta.date || meta.publicdate),
+            link: `${BASE_URL}/details/${identifier}`,
+            platform: 'archive',
+            mediaUrl: file ? downloadUrl(identifier, file.name) : undefined
+        };
+    },
+
+    async fetchItemFiles(identifier: string): Promise<VideoItem[]> {
+        const data = await this.fetchMetadata(identifier);
+        const meta = data.metadata;
+
+        return this.playableFiles(data.files || []).map(file => ({
+            // "<identifier>/<file>" embeds a single file of the item
+            id: `${identifier}/${file.name}`,
+            title: file.title || file.name.replace(/\.[^.]+$/, ''),
+            description: stripHtml(meta.description),
+            thumbnail: `${BASE_URL}/services/img/${identifier}`,
+            author: firstValue(meta.creator) || 'Internet Archive',
+            pubDate: toIsoDate(meta.date || meta.publicdate),
+            link: `${BASE_URL}/details/${identifier}/${encodeURIComponent(file.name)}`,
+            platform: 'archive',
+            mediaUrl: downloadUrl(identifier, file.name)
+        }));
+    },
+
+    async fetchCollection(collection: string, page = 1): Promise<VideoPage> {
+        const params = new URLSearchParams({
+            q: `collection:"${collection}" AND mediatype:movies`,
+            'sort[]': 'publicdate desc',
+            rows: String(PAGE_SIZE),
+            page: String(page),
+            output: 'json'
+        });
+        ['identifier', 'title', 'description', 'creator', 'publicdate', 'date'].forEach(f => params.append('fl[]', f));
+
+        const res = await fetch(`${BASE_URL}/advancedsearch.php?${params.toString()}`);
+        if (!res.ok) throw new Error('Internet Archive search failed');
+        const data = await res.json();
+
+        const videos: VideoItem[] = (data.response?.docs || []).map((doc: any) => ({
+            id: doc.identifier,
+            title: firstValue(doc.title) || doc.identifier,
+            description: stripHtml(doc.description),
+            thumbnail: `${BASE_URL}/services/img/${doc.identifier}`,
+            author: firstValue(doc.creator) || collection,
+            pubDate: toIsoDate(doc.publicdate || doc.date),
+            link: `${BASE_URL}/details/${doc.identifier}`,
+            platform: 'archive'
+        }));
+
+        const hasMore = videos.length > 0 && page * PAGE_SIZE < (data.response?.numFound || 0);
+        return { videos, nextCursor: hasMore ? String(page + 1) : undefined };
+    }
+};
+
+export const archiveProvider: PlatformProvider = {
+    id: 'archive',
+    name: 'Internet Archive',
+    credentials: [],
+
+    setCredential() {
+        // Public API, nothing to configure
+    },
+
+    detect(url, contextType) {
+        if (url.hostname !== 'archive.org' && !url.hostname.endsWith('.archive.org')) return null;
+        const parts = url.pathname.split('/').filter(p => p).map(p => decodeURIComponent(p));
+
+        // archive.org/details/<id> or archive.org/embed/<id>
+        if ((parts[0] === 'details' || parts[0] === 'embed') && parts[1]) {
+            // Collections and items share the URL layout, the form context tells them apart
+            return { platform: 'archive', sourceId: parts[1], type: contextType };
+        }
+        return null;
+    },
+
+    getVideos: (item, cursor) => archiveService.getVideos(item, cursor),
+
+    getEmbedUrl: sourceId => `${BASE_URL}/embed/${sourceId.split('/').map(encodeURIComponent).join('/')}`,
+
+    getWebUrl: sourceId => `${BASE_URL}/details/${sourceId}`
+};
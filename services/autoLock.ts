@@ -0,0 +1,96 @@
+import { AppSettings } from '../types';
+
+// Opt-in: vaults lock on idle only once the user picks a timeout
+export const DEFAULT_AUTO_LOCK_MINUTES = 0;
+
+// Anything that counts as the user being present
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+const CHECK_INTERVAL = 15 * 1000;
+
+// In-memory lock configuration
+let IDLE_MINUTES = DEFAULT_AUTO_LOCK_MINUTES;
+let LOCK_ON_HIDE = false;
+
+let lastActivity = Date.now();
+let openEmbeds = 0; // Embedded players hide their playback state, each one open counts as activity
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let lockCallback: (() => void) | null = null;
+
+const recordActivity = () => {
+    lastActivity = Date.now();
+};
+
+// Watching doesn't move the mouse: a playing <video>/<audio> or an open embed keeps the session alive
+const isWatching = (): boolean => {
+    if (openEmbeds > 0) return true;
+    return Array.from(document.querySelectorAll<HTMLMediaElement>('video, audio')).some(m => !m.paused && !m.ended);
+};
+
+const checkIdle = () => {
+    if (isWatching()) recordActivity();
+    if (IDLE_MINUTES > 0 && Date.now() - lastActivity >= IDLE_MINUTES * 60 * 1000) {
+        triggerLock();
+    }
+};
+
+const handleVisibility = () => {
+    if (document.hidden) {
+        if (LOCK_ON_HIDE) triggerLock();
+    } else {
+        // Background tabs throttle timers, so re-check as soon as the page is visible again
+        checkIdle();
+    }
+};
+
+const triggerLock = () => {
+    const callback = lockCallback;
+    autoLockService.stop();
+    callback?.();
+};
+
+export const autoLockService = {
+
+    /**
+     * Applies the lock preferences stored in settings. 0 minutes disables the idle timer.
+     */
+    configure(settings?: Pick<AppSettings, 'autoLockMinutes' | 'lockOnHide'>) {
+        IDLE_MINUTES = settings?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+        LOCK_ON_HIDE = !!settings?.lockOnHide;
+    },
+
+    /**
+     * Starts watching for inactivity and page hide while the vault is unlocked.
+     * `onLock` fires once, then watching stops until the next start().
+     */
+    start(onLock: () => void) {
+        this.stop();
+        lockCallback = onLock;
+        lastActivity = Date.now();
+
+        ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, recordActivity, { passive: true }));
+        document.addEventListener('visibilitychange', handleVisibility);
+        checkTimer = setInterval(checkIdle, CHECK_INTERVAL);
+    },
+
+    /**
+     * Counts an embedded player as activity until the returned release function is called.
+     */
+    holdForEmbed(): () => void {
+        openEmbeds++;
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            openEmbeds--;
+            recordActivity(); // The idle period starts when the player closes
+        };
+    },
+
+    stop() {
+        ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, recordActivity));
+        document.removeEventListener('visibilitychange', handleVisibility);
+        if (checkTimer) clearInterval(checkTimer);
+        checkTimer = null;
+        lockCallback = null;
+    }
+};
@@ -0,0 +1,270 @@
+import { EncryptedData } from '../types';
+import { cryptoService, DEFAULT_KDF } from './crypto';
+import { DB_VERSION } from './migrations';
+
+export const BACKUP_FORMAT = 'nomad-backup';
+export const ENCRYPTED_BACKUP_VERSION = 2;
+
+export type BackupData = Record<string, any[]>;
+
+/**
+ * Plaintext backup document. `dbVersion` is the schema the records were exported from,
+ * files from older builds are the bare store map and have no version.
+ */
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    dbVersion?: number;
+    exportedAt?: number;
+    stores: BackupData;
+}
+
+/**
+ * On-disk shape of a passphrase protected backup.
+ * Everything needed to re-derive the key lives in the header, the payload is the
+ * JSON export encrypted with AES-GCM (whose auth tag doubles as the integrity check).
+ * From v2 on the serialized header is the AES-GCM additional data, so editing it breaks decryption.
+ */
+export interface EncryptedBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    encrypted: true;
+    createdAt: number;
+    kdf: {
+        name: 'PBKDF2';
+        hash: 'SHA-256';
+        iterations: number;
+        salt: string; // Base64
+    };
+    cipher: 'AES-GCM';
+    payload: EncryptedData;
+}
+
+// v1 files were written with the fixed 100k iterations of cryptoService.deriveKey
+const LEGACY_KDF_ITERATIONS = 100000;
+// Upper bound so a crafted header can't stall the import for minutes
+const MAX_KDF_ITERATIONS = 10000000;
+
+// --- Merge Import ---
+
+export type ImportAction = 'add' | 'update' | 'skip';
+
+export interface ImportPlanEntry {
+    store: string;
+    action: ImportAction;
+    label: string;
+    record: any; // Record as it will be written (ignored for 'skip')
+    reason?: string;
+}
+
+export interface ImportPlan {
+    entries: ImportPlanEntry[];
+}
+
+// Vault credentials (auth) are never imported, they belong to the vault on this device
+export const IMPORT_STORES = ['channels', 'playlists', 'favorites', 'watchLater', 'lessons', 'tags', 'settings'];
+const MEDIA_STORES = ['channels', 'playlists', 'favorites', 'watchLater'];
+
+// Fields that only reflect local fetch state, they never make a record "changed"
+const VOLATILE_FIELDS = ['id', 'cachedContent', 'lastFetched', 'uploadsPlaylistId'];
+
+/**
+ * Identity of a record across devices, autoincrement ids are meaningless between vaults.
+ */
+const matchKey = (store: string, record: any): string => {
+    if (MEDIA_STORES.includes(store)) return `${record.platform || 'youtube'}:${record.instance ? `${record.instance}/` : ''}${record.sourceId}`;
+    if (store === 'lessons') return `${record.videoId}:${(record.title || '').trim().toLowerCase()}`;
+    if (store === 'tags') return String(record.name || '').trim().toLowerCase();
+    return record.id || 'config';
+};
+
+const labelOf = (store: string, record: any): string => {
+    if (store === 'lessons') return record.title || 'Untitled lesson';
+    if (store === 'settings') return 'App settings';
+    return record.name || record.sourceId || 'Unnamed';
+};
+
+const withoutKey = (record: any) => {
+    const { id, ...rest } = record;
+    return rest;
+};
+
+// Key order independent serialization so equal records compare equal
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Everything but the payload, serialized deterministically for use as AAD.
+ */
+const serializeHeader = (backup: EncryptedBackup): string => {
+    const { payload, ...header } = backup;
+    return stableStringify(header);
+};
+
+const comparable = (record: any) => {
+    const copy = { ...record };
+    VOLATILE_FIELDS.forEach(f => delete copy[f]);
+    return stableStringify(copy);
+};
+
+const unionTags = (a?: string[], b?: string[]) => Array.from(new Set([...(a || []), ...(b || [])]));
+
+const mergeRecord = (store: string, existing: any, incoming: any) => {
+    const merged = { ...existing, ...incoming, id: existing.id };
+    // Records without tags (lessons, older items) must not gain an empty list, it would read as a change
+    if (existing.tags || incoming.tags) merged.tags = unionTags(existing.tags, incoming.tags);
+    if (existing.createdAt && incoming.createdAt) {
+        merged.createdAt = Math.min(existing.createdAt, incoming.createdAt);
+    }
+    if (MEDIA_STORES.includes(store) && (existing.lastFetched || 0) > (incoming.lastFetched || 0)) {
+        merged.cachedContent = existing.cachedContent;
+        merged.lastFetched = existing.lastFetched;
+    }
+    return merged;
+};
+
+export const backupService = {
+
+    isEncryptedBackup(data: any): data is EncryptedBackup {
+        return !!data && data.format === BACKUP_FORMAT && data.encrypted === true;
+    },
+
+    createBackupFile(stores: BackupData): BackupFile {
+        return { format: BACKUP_FORMAT, dbVersion: DB_VERSION, exportedAt: Date.now(), stores };
+    },
+
+    /**
+     * Normalizes a parsed (and decrypted) backup document, accepting the legacy bare store map.
+     */
+    readBackupFile(doc: any): BackupFile {
+        if (!doc || typeof doc !== 'object' || Array.isArray(doc)) {
+            throw new Error('Backup file has an unexpected structure.');
+        }
+        if (doc.format === BACKUP_FORMAT && doc.stores && typeof doc.stores === 'object') {
+            return doc as BackupFile;
+        }
+        return { format: BACKUP_FORMAT, stores: doc };
+    },
+
+    /**
+     * Wraps a backup document in a versioned, passphrase encrypted envelope.
+     */
+    async encryptBackup(data: BackupFile, passphrase: string, iterations = DEFAULT_KDF.iterations): Promise<EncryptedBackup> {
+        const kdf = { name: 'PBKDF2' as const, hash: 'SHA-256' as const, iterations, salt: cryptoService.generateSalt() };
+        const key = await cryptoService.derivePassphraseKey(passphrase, kdf.salt, kdf);
+
+        const backup: EncryptedBackup = {
+            format: BACKUP_FORMAT,
+            version: ENCRYPTED_BACKUP_VERSION,
+            encrypted: true,
+            createdAt: Date.now(),
+            kdf,
+            cipher: 'AES-GCM',
+            payload: { iv: '', ciphertext: '' }
+        };
+        backup.payload = await cryptoService.encryptData(JSON.stringify(data), key, serializeHeader(backup));
+        return backup;
+    },
+
+    /**
+     * Decrypts and integrity-checks an encrypted backup.
+     * Throws if the header is unsupported, the passphrase is wrong or the file was altered.
+     */
+    async decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<BackupFile> {
+        if (backup.version > ENCRYPTED_BACKUP_VERSION) {
+            throw new Error(`Backup format v${backup.version} is newer than this app supports.`);
+        }
+        const iterations = backup.kdf?.iterations;
+        const validIterations = backup.version < 2
+            ? iterations === LEGACY_KDF_ITERATIONS
+            : Number.isInteger(iterations) && iterations >= LEGACY_KDF_ITERATIONS && iterations <= MAX_KDF_ITERATIONS;
+        if (backup.cipher !== 'AES-GCM' || backup.kdf?.name !== 'PBKDF2' || backup.kdf.hash !== 'SHA-256' || !validIterations) {
+            throw new Error('Unsupported backup encryption parameters.');
+        }
+        if (!backup.payload?.iv || !backup.payload?.ciphertext) {
+            throw new Error('Backup file is incomplete.');
+        }
+
+        const key = await cryptoService.derivePassphraseKey(passphrase, backup.kdf.salt, backup.kdf);
+        // v1 files authenticate the payload only
+        const aad = backup.version < 2 ? undefined : serializeHeader(backup);
+
+        let json: string;
+        try {
+            // AES-GCM rejects any modified ciphertext or header, so a successful decrypt means the file is intact
+            json = await cryptoService.decryptData(backup.payload, key, aad);
+        } catch (e) {
+            throw new Error('Incorrect passphrase or corrupted backup file.');
+        }
+
+        return this.readBackupFile(JSON.parse(json));
+    },
+
+    /**
+     * Computes what a merge import would do without touching the database.
+     * Media items match on platform + sourceId, lessons on videoId + title and tags on name.
+     * Vault credentials and settings are never imported: the settings secrets are encrypted
+     * with the key of the vault that exported them and can't be read here.
+     */
+    planImport(existing: BackupData, incoming: BackupData): ImportPlan {
+        const entries: ImportPlanEntry[] = [];
+
+        IMPORT_STORES.forEach(store => {
+            const records = incoming[store];
+            if (!Array.isArray(records)) return;
+
+            const index = new Map<string, any>();
+            (existing[store] || []).forEach(r => index.set(matchKey(store, r), r));
+            const seen = new Set<string>();
+
+            records.forEach(record => {
+                const key = matchKey(store, record);
+                const label = labelOf(store, record);
+
+                if (seen.has(key)) {
+                    entries.push({ store, action: 'skip', label, record, reason: 'Duplicate within backup file' });
+                    return;
+                }
+                seen.add(key);
+
+                if (store === 'settings') {
+                    entries.push({ store, action: 'skip', label, record, reason: 'Settings stay with the vault that exported them' });
+                    return;
+                }
+
+                const match = index.get(key);
+                if (!match) {
+                    entries.push({ store, action: 'add', label, record: withoutKey(record) });
+                    return;
+                }
+
+                if (store === 'tags') {
+                    entries.push({ store, action: 'skip', label, record, reason: 'Tag already exists' });
+                    return;
+                }
+
+                const merged = mergeRecord(store, match, record);
+                if (comparable(merged) === comparable(match)) {
+                    entries.push({ store, action: 'skip', label, record, reason: 'Already up to date' });
+                } else {
+                    entries.push({ store, action: 'update', label, record: merged });
+                }
+            });
+        });
+
+        return { entries };
+    },
+
+    summarize(plan: ImportPlan): Record<string, Record<ImportAction, number>> {
+        const summary: Record<string, Record<ImportAction, number>> = {};
+        plan.entries.forEach(e => {
+            summary[e.store] = summary[e.store] || { add: 0, update: 0, skip: 0 };
+            summary[e.store][e.action]++;
+        });
+        return summary;
+    }
+};
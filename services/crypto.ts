@@ -1,4 +1,4 @@
-import { EncryptedData } from '../types';
+import { EncryptedData, KdfParams } from '../types';
 
 // Utilities for ArrayBuffer <-> Base64
 const buf2hex = (buffer: ArrayBuffer) => { 
@@ -33,6 +33,22 @@ const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
   return window.btoa(binary);
 };
 
+// Current KDF for vault keys, raising iterations here upgrades vaults on their next login
+export const DEFAULT_KDF: KdfParams = {
+  name: "PBKDF2",
+  hash: "SHA-256",
+  iterations: 600000
+};
+
+// HKDF context labels keep the two sub-keys independent
+const ENCRYPTION_INFO = "nomad-vault-encryption";
+const VERIFIER_INFO = "nomad-vault-verifier";
+const RECOVERY_INFO = "nomad-vault-recovery";
+
+// Unambiguous alphabet for recovery keys (no 0/O, 1/I)
+const RECOVERY_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const RECOVERY_KEY_BYTES = 20; // 160 bits, 32 characters
+
 export const cryptoService = {
   /**
    * Generates a random salt.
@@ -72,10 +88,164 @@ export const cryptoService = {
     );
   },
 
+  /**
+   * Derives a non-extractable AES-GCM key straight from a password (e.g. backup passphrases).
+   * Unlike deriveKey the iteration count comes from the caller, so it can be stored next to the salt.
+   */
+  async derivePassphraseKey(password: string, saltBase64: string, kdf: KdfParams): Promise<CryptoKey> {
+    const keyMaterial = await window.crypto.subtle.importKey(
+      "raw",
+      str2buf(password),
+      { name: "PBKDF2" },
+      false,
+      ["deriveKey"]
+    );
+
+    return window.crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: base64ToArrayBuffer(saltBase64),
+        iterations: kdf.iterations,
+        hash: kdf.hash
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  },
+
+  /**
+   * Derives the vault sub-keys from a password.
+   * PBKDF2 stretches the password into a master secret, HKDF then splits it into
+   * a non-extractable AES-GCM key and independent verifier bytes, so checking the
+   * password never requires exporting the encryption key.
+   */
+  async deriveVaultKeys(password: string, saltBase64: string, kdf: KdfParams): Promise<{ key: CryptoKey; verifier: string }> {
+    const salt = base64ToArrayBuffer(saltBase64);
+    const enc = new TextEncoder();
+
+    const passwordKey = await window.crypto.subtle.importKey(
+      "raw",
+      enc.encode(password),
+      { name: "PBKDF2" },
+      false,
+      ["deriveBits"]
+    );
+
+    const masterBits = await window.crypto.subtle.deriveBits(
+      {
+        name: "PBKDF2",
+        salt: salt,
+        iterations: kdf.iterations,
+        hash: kdf.hash
+      },
+      passwordKey,
+      256
+    );
+
+    const master = await window.crypto.subtle.importKey("raw", masterBits, { name: "HKDF" }, false, ["deriveKey", "deriveBits"]);
+
+    // Wraps the vault data key (encrypt/decrypt for vaults created before the data key split)
+    const key = await window.crypto.subtle.deriveKey(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: enc.encode(ENCRYPTION_INFO) },
+      master,
+      { name: "AES-GCM", length: 256 },
+      false, // Never leaves WebCrypto
+      ["encrypt", "decrypt", "wrapKey", "unwrapKey"]
+    );
+
+    const verifierBits = await window.crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: enc.encode(VERIFIER_INFO) },
+      master,
+      256
+    );
+
+    return { key, verifier: arrayBufferToBase64(verifierBits) };
+  },
+
+  /**
+   * Generates the random key that actually encrypts vault data.
+   * Extractable only so it can be wrapped, sessions use a non-extractable unwrapped copy.
+   */
+  async generateDataKey(): Promise<CryptoKey> {
+    return window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  },
+
+  /**
+   * Encrypts the data key with a key-encryption key (password or recovery derived).
+   */
+  async wrapDataKey(dataKey: CryptoKey, kek: CryptoKey): Promise<EncryptedData> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await window.crypto.subtle.wrapKey("raw", dataKey, kek, { name: "AES-GCM", iv: iv });
+
+    return {
+      iv: arrayBufferToBase64(iv.buffer),
+      ciphertext: arrayBufferToBase64(wrapped)
+    };
+  },
+
+  /**
+   * Recovers the data key. Only pass `extractable` when it has to be wrapped again.
+   */
+  async unwrapDataKey(wrapped: EncryptedData, kek: CryptoKey, extractable = false): Promise<CryptoKey> {
+    try {
+      return await window.crypto.subtle.unwrapKey(
+        "raw",
+        base64ToArrayBuffer(wrapped.ciphertext),
+        kek,
+        { name: "AES-GCM", iv: base64ToArrayBuffer(wrapped.iv) },
+        { name: "AES-GCM", length: 256 },
+        extractable,
+        ["encrypt", "decrypt"]
+      );
+    } catch (e) {
+      throw new Error("Failed to unwrap data key. Key may be incorrect.");
+    }
+  },
+
+  /**
+   * Generates a human readable recovery key, e.g. ABCD-EFGH-... (8 groups of 4).
+   */
+  generateRecoveryKey(): string {
+    const bytes = window.crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES));
+    let bits = 0;
+    let value = 0;
+    let out = "";
+    for (const byte of bytes) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        out += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    return out.match(/.{1,4}/g)!.join("-");
+  },
+
+  /**
+   * Derives the key-encryption key from a recovery key. The recovery key is already
+   * high entropy, so HKDF is enough (no password stretching needed).
+   */
+  async deriveRecoveryKey(recoveryKey: string, saltBase64: string): Promise<CryptoKey> {
+    const normalized = recoveryKey.toUpperCase().replace(/[^A-Z0-9]/g, "");
+    const enc = new TextEncoder();
+
+    const material = await window.crypto.subtle.importKey("raw", enc.encode(normalized), { name: "HKDF" }, false, ["deriveKey"]);
+    return window.crypto.subtle.deriveKey(
+      { name: "HKDF", hash: "SHA-256", salt: base64ToArrayBuffer(saltBase64), info: enc.encode(RECOVERY_INFO) },
+      material,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["wrapKey", "unwrapKey"]
+    );
+  },
+
   /**
    * Creates a 'verifier' hash of the key. 
    * We export the key raw bytes and hash them. 
    * This allows us to check if the password is correct without storing the password.
+   * Legacy scheme, only used to unlock vaults created before deriveVaultKeys.
    */
   async createVerifier(key: CryptoKey): Promise<string> {
     const exported = await window.crypto.subtle.exportKey("raw", key);
@@ -85,15 +255,17 @@ export const cryptoService = {
 
   /**
    * Encrypts a string (e.g., API Key) using the derived session key.
+   * `additionalData` is authenticated but not encrypted, decryption needs the exact same value.
    */
-  async encryptData(text: string, key: CryptoKey): Promise<EncryptedData> {
+  async encryptData(text: string, key: CryptoKey, additionalData?: string): Promise<EncryptedData> {
     const iv = window.crypto.getRandomValues(new Uint8Array(12));
     const encoded = str2buf(text);
 
     const ciphertext = await window.crypto.subtle.encrypt(
       {
         name: "AES-GCM",
-        iv: iv
+        iv: iv,
+        ...(additionalData !== undefined && { additionalData: str2buf(additionalData) })
       },
       key,
       encoded
@@ -108,7 +280,7 @@ export const cryptoService = {
   /**
    * Decrypts data using the derived session key.
    */
-  async decryptData(data: EncryptedData, key: CryptoKey): Promise<string> {
+  async decryptData(data: EncryptedData, key: CryptoKey, additionalData?: string): Promise<string> {
     const iv = base64ToArrayBuffer(data.iv);
     const ciphertext = base64ToArrayBuffer(data.ciphertext);
 
@@ -116,7 +288,8 @@ export const cryptoService = {
       const decrypted = await window.crypto.subtle.decrypt(
         {
           name: "AES-GCM",
-          iv: iv
+          iv: iv,
+          ...(additionalData !== undefined && { additionalData: str2buf(additionalData) })
         },
         key,
         ciphertext
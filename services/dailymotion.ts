@@ -1,82 +1,243 @@
 
-import { MediaItem, VideoItem } from '../types';
+import { LiveStatus, MediaItem, VideoItem } from '../types';
+import { proxyService } from './proxy';
+import { feedService } from './feed';
+import { PlatformProvider, SourceMetadata, SourceType, VideoPage } from './platforms';
 
 const BASE_URL = 'https://api.dailymotion.com';
+const OEMBED_URL = 'https://www.dailymotion.com/services/oembed';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 500; // Doubles on every retry
 
 let MEMORY_TOKEN: string | null = null;
 
+/**
+ * Duration, views and live state (on air, scheduled or replay) from the `duration,views_total,mode,onair,start_time` fields.
+ */
+const videoDetails = (vid: any): Partial<VideoItem> => {
+    let liveStatus: LiveStatus | undefined;
+    if (vid.mode === 'live') {
+        liveStatus = vid.onair ? 'live' : (vid.start_time && vid.start_time * 1000 > Date.now() ? 'upcoming' : undefined);
+    }
+    return {
+        duration: vid.duration || undefined,
+        views: vid.views_total != null ? String(vid.views_total) : undefined,
+        liveStatus,
+        scheduledStart: liveStatus === 'upcoming' ? new Date(vid.start_time * 1000).toISOString() : undefined,
+        wasLive: vid.mode === 'live' && !liveStatus ? true : undefined
+    };
+};
+
+export type DailymotionErrorKind = 'not_found' | 'unauthorized' | 'rate_limited' | 'unavailable' | 'network' | 'invalid';
+
+/**
+ * Failure of a Dailymotion request, `kind` tells the UI whether retrying later makes sense.
+ */
+export class DailymotionError extends Error {
+    kind: DailymotionErrorKind;
+    status?: number;
+
+    constructor(kind: DailymotionErrorKind, message: string, status?: number) {
+        super(message);
+        this.name = 'DailymotionError';
+        this.kind = kind;
+        this.status = status;
+    }
+}
+
+const errorFromResponse = (status: number, body: any, subject: string): DailymotionError => {
+    const detail = body?.error?.message;
+    if (status === 404) return new DailymotionError('not_found', `Dailymotion ${subject} not found`, status);
+    if (status === 401 || status === 403) return new DailymotionError('unauthorized', detail || 'Dailymotion refused the request, check the token in Settings.', status);
+    if (status === 429) return new DailymotionError('rate_limited', 'Dailymotion rate limit reached, try again in a moment.', status);
+    if (status >= 500) return new DailymotionError('unavailable', 'Dailymotion is temporarily unavailable.', status);
+    return new DailymotionError('invalid', detail || `Dailymotion request failed (${status})`, status);
+};
+
+const mapVideo = (vid: any): VideoItem => ({
+    id: vid.id,
+    title: vid.title,
+    description: vid.description,
+    thumbnail: vid.thumbnail_720_url,
+    author: vid['owner.screenname'],
+    pubDate: new Date(vid.created_time * 1000).toISOString(),
+    link: vid.url,
+    platform: 'dailymotion',
+    ...videoDetails(vid)
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export const dailymotionService = {
     
     setToken(token: string) {
         MEMORY_TOKEN = token;
     },
 
-    async getVideos(item: MediaItem): Promise<VideoItem[]> {
-        
-        // Common fields we want to fetch
-        const fields = 'id,title,description,thumbnail_720_url,owner.screenname,created_time,url';
-        
+    /**
+     * API first, then the public RSS feeds / oEmbed through the proxy chain.
+     * `cursor` is the number of the page to fetch (the API counts from 1).
+     */
+    async getVideos(item: MediaItem, cursor?: string): Promise<VideoPage> {
+        try {
+            return await this.fetchViaApi(item, Number(cursor) || 1);
+        } catch (apiError: any) {
+            // The feeds only carry the latest videos, and a missing source won't show up there either
+            if (cursor || apiError.kind === 'not_found') throw apiError;
+            console.warn('Dailymotion API failed, falling back to Proxy.', apiError);
+
+            try {
+                return { videos: await this.fetchFallback(item) };
+            } catch (fallbackError) {
+                console.error('Dailymotion Proxy Fallback failed', fallbackError);
+                throw apiError;
+            }
+        }
+    },
+
+    /**
+     * GET on the API, retried with exponential backoff on network errors, rate limits and server errors.
+     */
+    async fetchApi(path: string, subject: string): Promise<any> {
         // Add headers if token exists
         const headers: HeadersInit = {};
         if (MEMORY_TOKEN) {
             headers['Authorization'] = `Bearer ${MEMORY_TOKEN}`;
         }
 
-        try {
-            if (item.type === 'video') {
-                const res = await fetch(`${BASE_URL}/video/${item.sourceId}?fields=${fields}`, { headers });
-                if (!res.ok) throw new Error('Dailymotion video not found');
-                const data = await res.json();
-                
-                return [{
-                    id: data.id,
-                    title: data.title,
-                    description: data.description,
-                    thumbnail: data.thumbnail_720_url,
-                    author: data['owner.screenname'],
-                    pubDate: new Date(data.created_time * 1000).toISOString(),
-                    link: data.url,
-                    platform: 'dailymotion'
-                }];
-            } else if (item.type === 'channel') {
-                // Fetch videos from a user
-                const res = await fetch(`${BASE_URL}/user/${item.sourceId}/videos?fields=${fields}&limit=20`, { headers });
-                if (!res.ok) throw new Error('Dailymotion channel not found');
-                const data = await res.json();
-                
-                return data.list.map((vid: any) => ({
-                    id: vid.id,
-                    title: vid.title,
-                    description: vid.description,
-                    thumbnail: vid.thumbnail_720_url,
-                    author: vid['owner.screenname'],
-                    pubDate: new Date(vid.created_time * 1000).toISOString(),
-                    link: vid.url,
-                    platform: 'dailymotion'
-                }));
-            } else if (item.type === 'playlist') {
-                 // Fetch videos from a playlist
-                 const res = await fetch(`${BASE_URL}/playlist/${item.sourceId}/videos?fields=${fields}&limit=20`, { headers });
-                 if (!res.ok) throw new Error('Dailymotion playlist not found');
-                 const data = await res.json();
-                 
-                 return data.list.map((vid: any) => ({
-                     id: vid.id,
-                     title: vid.title,
-                     description: vid.description,
-                     thumbnail: vid.thumbnail_720_url,
-                     author: vid['owner.screenname'],
-                     pubDate: new Date(vid.created_time * 1000).toISOString(),
-                     link: vid.url,
-                     platform: 'dailymotion'
-                 }));
+        for (let attempt = 1; ; attempt++) {
+            let error: DailymotionError;
+            try {
+                const res = await fetch(`${BASE_URL}${path}`, { headers });
+                if (res.ok) return await res.json();
+                error = errorFromResponse(res.status, await res.json().catch(() => null), subject);
+            } catch {
+                error = new DailymotionError('network', 'Dailymotion could not be reached.');
             }
+
+            const retryable = error.kind === 'network' || error.kind === 'rate_limited' || error.kind === 'unavailable';
+            if (!retryable || attempt >= MAX_ATTEMPTS) throw error;
+            await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+        }
+    },
+
+    async fetchViaApi(item: MediaItem, page: number): Promise<VideoPage> {
+        // Common fields we want to fetch
+        const fields = 'id,title,description,thumbnail_720_url,owner.screenname,created_time,url,duration,views_total,mode,onair,start_time';
+
+        if (item.type === 'video') {
+            const data = await this.fetchApi(`/video/${item.sourceId}?fields=${fields}`, 'video');
+            return { videos: [mapVideo(data)] };
+        }
+
+        // Videos from a user or a playlist
+        const path = item.type === 'channel' ? `/user/${item.sourceId}` : `/playlist/${item.sourceId}`;
+        const data = await this.fetchApi(`${path}/videos?fields=${fields}&limit=20&page=${page}`, item.type);
+        const videos: VideoItem[] = (data.list || []).map(mapVideo);
+        return { videos, nextCursor: data.has_more ? String(page + 1) : undefined };
+    },
+
+    /**
+     * Name, artwork and description for the add form: user or playlist info from the API, oEmbed for videos.
+     */
+    async getMetadata(sourceId: string, type: SourceType): Promise<SourceMetadata> {
+        if (type === 'video') {
+            const videoUrl = `https://www.dailymotion.com/video/${sourceId}`;
+            const data = JSON.parse(await proxyService.fetchText(`${OEMBED_URL}?url=${encodeURIComponent(videoUrl)}`));
+            return { name: data.title, avatar: data.thumbnail_url, description: data.description || undefined };
+        }
+
+        if (type === 'playlist') {
+            const data = await this.fetchApi(`/playlist/${sourceId}?fields=name,thumbnail_240_url,description`, 'playlist');
+            return { name: data.name, avatar: data.thumbnail_240_url, description: data.description || undefined };
+        }
+
+        const data = await this.fetchApi(`/user/${sourceId}?fields=screenname,avatar_240_url,cover_250_url,description`, 'channel');
+        return { name: data.screenname, avatar: data.avatar_240_url, banner: data.cover_250_url, description: data.description || undefined };
+    },
+
+    async fetchFallback(item: MediaItem): Promise<VideoItem[]> {
+        // 1. Single Video: oEmbed
+        if (item.type === 'video') {
+            const videoUrl = `https://www.dailymotion.com/video/${item.sourceId}`;
+            const data = JSON.parse(await proxyService.fetchText(`${OEMBED_URL}?url=${encodeURIComponent(videoUrl)}`));
+
+            return [{
+                id: item.sourceId,
+                title: data.title || item.name,
+                description: data.description || '',
+                thumbnail: data.thumbnail_url || '',
+                author: data.author_name || 'Dailymotion',
+                pubDate: new Date(item.createdAt).toISOString(),
+                link: videoUrl,
+                platform: 'dailymotion'
+            }];
+        }
+
+        // 2. Users & Playlists: RSS feeds
+        const rssUrl = `https://www.dailymotion.com/rss/${item.type === 'channel' ? 'user' : 'playlist'}/${item.sourceId}`;
+        const text = await proxyService.fetchText(rssUrl);
+        if (!text.trim().startsWith('<')) {
+            throw new Error('Invalid RSS response');
+        }
+
+        return feedService.parseFeed(text, item.name)
+            .map(v => ({ ...v, id: v.link.split('/video/')[1]?.split(/[_?#]/)[0] || '', platform: 'dailymotion', mediaUrl: undefined }))
+            .filter(v => v.id);
+    }
+};
+
+export const dailymotionProvider: PlatformProvider = {
+    id: 'dailymotion',
+    name: 'Dailymotion',
+    credentials: [{ field: 'dailymotionToken', label: 'Dailymotion Token', required: false }],
+
+    setCredential(_field, value) {
+        dailymotionService.setToken(value);
+    },
+
+    detect(url) {
+        const hostname = url.hostname;
+        const path = url.pathname;
+        if (!hostname.includes('dailymotion.com') && !hostname.includes('dai.ly')) return null;
             
-            return [];
-        } catch (error) {
-            console.error('Dailymotion Fetch Error:', error);
-            // Return empty to avoid crashing UI, allows user to see "No videos found"
-            return [];
+        // 1. Video Short URL: dai.ly/x12345
+        if (hostname.includes('dai.ly')) {
+            return { platform: 'dailymotion', sourceId: path.slice(1).trim(), type: 'video' };
+        }
+
+        // 2. Standard Video: /video/x12345
+        if (path.includes('/video/')) {
+             const id = path.split('/video/')[1].split('_')[0]; // remove slug if present
+             return { platform: 'dailymotion', sourceId: id.trim(), type: 'video' };
+        }
+
+        // 3. Playlist: /playlist/x6d14t
+        if (path.includes('/playlist/')) {
+            const id = path.split('/playlist/')[1].split('_')[0];
+            return { platform: 'dailymotion', sourceId: id.trim(), type: 'playlist' };
         }
+        
+        // 4. Channel (User): /euronews-fr (Root path) or /user/euronews-fr
+        const parts = path.split('/').filter(p => p);
+        if (parts.length > 0) {
+            // Handle legacy /user/username or modern /username
+            const id = parts[0] === 'user' && parts.length > 1 ? parts[1] : parts[0];
+            return { platform: 'dailymotion', sourceId: id.trim(), type: 'channel' };
+        }
+        return null;
+    },
+
+    getMetadata: source => dailymotionService.getMetadata(source.sourceId, source.type),
+
+    getVideos: (item, cursor) => dailymotionService.getVideos(item, cursor),
+
+    getEmbedUrl: sourceId => `https://www.dailymotion.com/embed/video/${sourceId}?autoplay=1`,
+
+    getWebUrl(sourceId, type) {
+        if (type === 'channel') return `https://www.dailymotion.com/${sourceId}`;
+        if (type === 'playlist') return `https://www.dailymotion.com/playlist/${sourceId}`;
+        return `https://dailymotion.com/video/${sourceId}`;
     }
 };
@@ -1,115 +1,211 @@
 
-import { UserAuth, MediaItem, DEFAULT_CHANNELS, DEFAULT_PLAYLISTS, DEFAULT_TAGS, AppSettings, Tag, Lesson } from '../types';
+import { UserAuth, MediaItem, AppSettings, Tag, EncryptedData, AuditEntry, DashboardCache } from '../types';
+import { DB_VERSION, MEDIA_STORES, runMigrations } from './migrations';
+import { ImportPlan } from './backup';
+import { cryptoService } from './crypto';
+
+// Database of the first vault on a device, further vaults get their own database (see vaultRegistry)
+export const DB_NAME = 'NomadMediaSecureDB';
+
+// Oldest audit entries are dropped past this size
+const MAX_AUDIT_ENTRIES = 500;
+
+/**
+ * Library stores that get sealed when library encryption is on, with the fields
+ * that must stay in the clear because the key path or an index is built on them.
+ */
+const SEALED_STORES: Record<string, string[]> = {
+  channels: ['id', 'name'],
+  playlists: ['id'],
+  favorites: ['id', 'tags'],
+  watchLater: ['id'],
+  lessons: ['id', 'videoId']
+};
+
+// On-disk shape of a sealed record: index fields plus the encrypted JSON of everything else
+interface SealedRecord {
+  id?: number;
+  sealed: EncryptedData;
+  [indexField: string]: unknown;
+}
 
-const DB_NAME = 'NomadMediaSecureDB';
-const DB_VERSION = 6; // Bump version for lessons store
+const isSealed = (record: any): record is SealedRecord => {
+  return !!record && typeof record === 'object' && !!record.sealed && typeof record.sealed.ciphertext === 'string';
+};
 
 export class DBService {
   private db: IDBDatabase | null = null;
+  private dbName: string | null = null;
+
+  // Library encryption state (In Memory Only, set on login)
+  private sessionKey: CryptoKey | null = null;
+  private encryptLibrary = false;
+
+  /**
+   * Opens (and migrates) a vault database, closing the one currently open if it differs.
+   */
+  async init(name: string = DB_NAME): Promise<void> {
+    if (this.db && this.dbName === name) return;
+    this.close();
 
-  async init(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(name, DB_VERSION);
 
       request.onerror = () => reject(request.error);
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
         const transaction = (event.target as IDBOpenDBRequest).transaction!;
-        
-        // Auth Store
-        if (!db.objectStoreNames.contains('auth')) {
-          db.createObjectStore('auth', { keyPath: 'username' });
-        }
 
-        // Channels
-        let channelStore: IDBObjectStore;
-        if (!db.objectStoreNames.contains('channels')) {
-          channelStore = db.createObjectStore('channels', { keyPath: 'id', autoIncrement: true });
-          channelStore.createIndex('name', 'name', { unique: false });
-        } else {
-            channelStore = transaction.objectStore('channels');
-        }
+        // Versioned, non-destructive steps (see services/migrations.ts)
+        runMigrations(db, transaction, event.oldVersion);
+      };
 
-        // Playlists
-        let playlistStore: IDBObjectStore;
-        if (!db.objectStoreNames.contains('playlists')) {
-          playlistStore = db.createObjectStore('playlists', { keyPath: 'id', autoIncrement: true });
-        } else {
-            playlistStore = transaction.objectStore('playlists');
-        }
+      request.onsuccess = (event) => {
+        this.db = (event.target as IDBOpenDBRequest).result;
+        this.dbName = name;
+        resolve();
+      };
+    });
+  }
 
-        // Favorites
-        if (!db.objectStoreNames.contains('favorites')) {
-          const store = db.createObjectStore('favorites', { keyPath: 'id', autoIncrement: true });
-          store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
-        }
+  close(): void {
+    this.lockLibrary();
+    this.db?.close();
+    this.db = null;
+    this.dbName = null;
+  }
 
-        // Watch Later
-        if (!db.objectStoreNames.contains('watchLater')) {
-            db.createObjectStore('watchLater', { keyPath: 'id', autoIncrement: true });
-        }
+  // Name of the open vault database, null when none is open
+  getName(): string | null {
+    return this.dbName;
+  }
 
-        // Lessons
-        if (!db.objectStoreNames.contains('lessons')) {
-            const lessonStore = db.createObjectStore('lessons', { keyPath: 'id', autoIncrement: true });
-            lessonStore.createIndex('videoId', 'videoId', { unique: false });
-        }
+  /**
+   * Closes and permanently deletes the open vault database.
+   */
+  async destroy(): Promise<void> {
+    const name = this.dbName;
+    if (!name) return Promise.reject('DB not initialized');
+    this.close();
 
-        // Tags
-        let tagStore: IDBObjectStore;
-        if (!db.objectStoreNames.contains('tags')) {
-          tagStore = db.createObjectStore('tags', { keyPath: 'id', autoIncrement: true });
-          tagStore.createIndex('name', 'name', { unique: true });
-        } else {
-            tagStore = transaction.objectStore('tags');
-        }
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(name);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn(`[DB] Deleting ${name} is waiting for other tabs to close it`);
+    });
+  }
 
-        // Settings (API Key)
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'id' });
-        }
+  // Library Encryption
 
-        // --- MIGRATION / SEEDING LOGIC (Runs on Version Upgrade) ---
-        if (event.oldVersion < 4) {
-            // 1. Clear and Reseed Channels
-            channelStore.clear(); 
-            DEFAULT_CHANNELS.forEach(cat => {
-                channelStore.add({
-                ...cat,
-                url: `https://www.youtube.com/channel/${cat.sourceId}`,
-                createdAt: Date.now()
-                });
-            });
-
-            // 2. Clear and Reseed Playlists
-            playlistStore.clear();
-            DEFAULT_PLAYLISTS.forEach(pl => {
-                playlistStore.add({
-                    ...pl,
-                    url: `https://www.youtube.com/playlist?list=${pl.sourceId}`,
-                    createdAt: Date.now()
-                });
-            });
-
-            // 3. Update Tags
-            tagStore.clear();
-            DEFAULT_TAGS.forEach(tag => {
-                tagStore.add({ name: tag });
-            });
-        }
-      };
+  /**
+   * Hands the session key to the CRUD helpers and picks up the library encryption setting.
+   * Must run after login, before any library store is read.
+   */
+  async unlockLibrary(key: CryptoKey): Promise<void> {
+    this.sessionKey = key;
+    const settings = await this.getSettings();
+    this.encryptLibrary = !!settings?.encryptLibrary;
+  }
 
-      request.onsuccess = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
-        resolve();
-      };
+  lockLibrary(): void {
+    this.sessionKey = null;
+    this.encryptLibrary = false;
+  }
+
+  isLibraryEncrypted(): boolean {
+    return this.encryptLibrary;
+  }
+
+  /**
+   * Turns library encryption on or off, rewriting every library record in the new format.
+   * Records and the settings flag are written in one transaction, so the vault is never left half migrated.
+   */
+  async setLibraryEncryption(enabled: boolean): Promise<void> {
+    if (!this.db) throw new Error('DB not initialized');
+    if (!this.sessionKey) throw new Error('Library is locked');
+    if (enabled === this.encryptLibrary) return;
+
+    // 1. Read everything in clear text (sealed or not)
+    const library = await this.readLibrary();
+
+    // 2. Convert each record to the target format before the transaction opens
+    const rewritten: Record<string, any[]> = {};
+    for (const [storeName, records] of Object.entries(library)) {
+        rewritten[storeName] = enabled
+            ? await Promise.all(records.map(r => this.sealRecord(storeName, r, this.sessionKey!)))
+            : records;
+    }
+
+    const settings = await this.getSettings() || {};
+
+    // The dashboard cache lists videos of followed channels, it follows the library format
+    const cache = await this.getDashboardCache();
+    const dashboardCache = cache && enabled ? await this.sealCache(cache, this.sessionKey) : cache;
+
+    // 3. Write records and flag together
+    await this.writeInTransaction([...Object.keys(rewritten), 'settings'], tx => {
+        Object.entries(rewritten).forEach(([storeName, records]) => {
+            const store = tx.objectStore(storeName);
+            records.forEach(r => store.put(r));
+        });
+        tx.objectStore('settings').put({ ...settings, id: 'config', encryptLibrary: enabled, dashboardCache });
     });
+
+    this.encryptLibrary = enabled;
+  }
+
+  private async sealRecord(storeName: string, record: any, key: CryptoKey): Promise<SealedRecord> {
+    const clearFields = SEALED_STORES[storeName];
+    const { id, ...payload } = record;
+    const sealed: SealedRecord = { sealed: await cryptoService.encryptData(JSON.stringify(payload), key) };
+
+    clearFields.forEach(field => {
+        if (record[field] !== undefined) sealed[field] = record[field];
+    });
+    return sealed;
+  }
+
+  private async sealCache(cache: DashboardCache, key: CryptoKey): Promise<{ sealed: EncryptedData }> {
+    return { sealed: await cryptoService.encryptData(JSON.stringify(cache), key) };
+  }
+
+  private async openRecord<T>(record: any): Promise<T> {
+    if (!isSealed(record)) return record as T;
+    if (!this.sessionKey) throw new Error('Library is locked');
+
+    const payload = JSON.parse(await cryptoService.decryptData(record.sealed, this.sessionKey));
+    return (record.id !== undefined ? { ...payload, id: record.id } : payload) as T;
+  }
+
+  // Seals a record on its way in when library encryption is on
+  private async prepareWrite(storeName: string, record: any): Promise<any> {
+    if (!this.encryptLibrary || !SEALED_STORES[storeName] || !this.sessionKey) return record;
+    return this.sealRecord(storeName, record, this.sessionKey);
   }
 
-  async hasUsers(): Promise<boolean> {
-    const users = await this.getAll<UserAuth>('auth');
-    return users.length > 0;
+  private async readLibrary(): Promise<Record<string, any[]>> {
+    const library: Record<string, any[]> = {};
+    for (const storeName of Object.keys(SEALED_STORES)) {
+        if (this.db!.objectStoreNames.contains(storeName)) {
+            library[storeName] = await this.getAll(storeName);
+        }
+    }
+    return library;
+  }
+
+  private writeInTransaction(storeNames: string[], write: (tx: IDBTransaction) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (!this.db) return reject('DB not initialized');
+        const tx = this.db.transaction(storeNames, 'readwrite');
+
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+
+        write(tx);
+    });
   }
 
   async getUser(username: string): Promise<UserAuth | undefined> {
@@ -143,11 +239,108 @@ export class DBService {
       return this.update('settings', { ...settings, id: 'config' });
   }
 
+  /**
+   * Random discovery cache. Sealed like the library records when library encryption is on,
+   * undefined when there is none or it can't be opened with the session key.
+   */
+  async getDashboardCache(): Promise<DashboardCache | undefined> {
+      const cache = (await this.getSettings())?.dashboardCache;
+      if (!cache) return undefined;
+      if (!('sealed' in cache)) return cache;
+      try {
+          return await this.openRecord<DashboardCache>(cache);
+      } catch {
+          return undefined;
+      }
+  }
+
+  async saveDashboardCache(cache: DashboardCache): Promise<void> {
+      const stored = this.encryptLibrary && this.sessionKey ? await this.sealCache(cache, this.sessionKey) : cache;
+      return this.patchSettings({ dashboardCache: stored });
+  }
+
+  /**
+   * Merges `patch` into the stored settings within one transaction, so fields written
+   * by someone else since they were last read are kept.
+   */
+  async patchSettings(patch: Partial<AppSettings>): Promise<void> {
+      return this.writeInTransaction(['settings'], tx => {
+          const store = tx.objectStore('settings');
+          const req = store.get('config');
+          req.onsuccess = () => store.put({ ...req.result, ...patch, id: 'config' });
+      });
+  }
+
+  /**
+   * Replaces the auth record and (re-encrypted) settings together, used when the vault key changes.
+   * When library encryption is on, every library record is re-sealed with `newKey` in the same transaction.
+   */
+  async saveVaultCredentials(auth: UserAuth, settings?: AppSettings, newKey?: CryptoKey): Promise<void> {
+      if (!this.db) return Promise.reject('DB not initialized');
+
+      const resealed: Record<string, SealedRecord[]> = {};
+      if (newKey && this.encryptLibrary) {
+          const library = await this.readLibrary();
+          for (const [storeName, records] of Object.entries(library)) {
+              resealed[storeName] = await Promise.all(records.map(r => this.sealRecord(storeName, r, newKey)));
+          }
+      }
+
+      await this.writeInTransaction(['auth', 'settings', ...Object.keys(resealed)], tx => {
+          tx.objectStore('auth').put(auth);
+          if (settings) {
+              // A sealed dashboard cache can't be opened with the new key, it is simply rebuilt
+              const dashboardCache = Object.keys(resealed).length > 0 ? undefined : settings.dashboardCache;
+              tx.objectStore('settings').put({ ...settings, id: 'config', dashboardCache });
+          }
+          Object.entries(resealed).forEach(([storeName, records]) => {
+              const store = tx.objectStore(storeName);
+              records.forEach(r => store.put(r));
+          });
+      });
+
+      if (newKey) this.sessionKey = newKey;
+  }
+
+  // Unlock Audit Log
+
+  async addAuditEntry(entry: AuditEntry): Promise<void> {
+      if (!this.db || !this.db.objectStoreNames.contains('auditLog')) return;
+
+      return this.writeInTransaction(['auditLog'], tx => {
+          const store = tx.objectStore('auditLog');
+          store.add(entry);
+
+          // Prune the oldest entries (ids grow with time)
+          const countReq = store.count();
+          countReq.onsuccess = () => {
+              let excess = countReq.result - MAX_AUDIT_ENTRIES;
+              if (excess <= 0) return;
+              const cursorReq = store.openCursor();
+              cursorReq.onsuccess = () => {
+                  const cursor = cursorReq.result;
+                  if (!cursor || excess-- <= 0) return;
+                  cursor.delete();
+                  cursor.continue();
+              };
+          };
+      });
+  }
+
+  /**
+   * Newest first.
+   */
+  async getAuditLog(): Promise<AuditEntry[]> {
+      const entries = await this.getAll<AuditEntry>('auditLog');
+      return entries.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
   // Backup & Restore
 
   async exportFullDB(): Promise<Record<string, any[]>> {
     if (!this.db) throw new Error('DB not initialized');
-    const storeNames = ['auth', 'channels', 'playlists', 'favorites', 'watchLater', 'lessons', 'tags', 'settings'];
+    // Vault credentials (salt, verifier, wrapped keys) never leave the device
+    const storeNames = ['channels', 'playlists', 'favorites', 'watchLater', 'lessons', 'tags', 'settings'];
     const exportData: Record<string, any[]> = {};
 
     for (const name of storeNames) {
@@ -158,26 +351,27 @@ export class DBService {
     return exportData;
   }
 
-  async importFullDB(data: Record<string, any[]>): Promise<void> {
-      return new Promise((resolve, reject) => {
-          if (!this.db) return reject('DB not initialized');
-          
-          const storeNames = ['auth', 'channels', 'playlists', 'favorites', 'watchLater', 'lessons', 'tags', 'settings'];
-          const validStores = storeNames.filter(name => this.db!.objectStoreNames.contains(name));
-
-          // Open a transaction for all stores
-          const transaction = this.db.transaction(validStores, 'readwrite');
-          
-          transaction.oncomplete = () => resolve();
-          transaction.onerror = () => reject(transaction.error);
-          transaction.onabort = () => reject(transaction.error);
-
-          validStores.forEach(storeName => {
-              if (data[storeName] && Array.isArray(data[storeName])) {
-                  const store = transaction.objectStore(storeName);
-                  data[storeName].forEach(item => {
-                      store.put(item);
-                  });
+  /**
+   * Writes a merge plan produced by backupService.planImport in a single transaction,
+   * so either every planned add/update lands or none does.
+   */
+  async applyImportPlan(plan: ImportPlan): Promise<void> {
+      if (!this.db) return Promise.reject('DB not initialized');
+
+      const writes = plan.entries.filter(e => e.action !== 'skip' && this.db!.objectStoreNames.contains(e.store));
+      if (writes.length === 0) return;
+
+      // Seal before the transaction opens, it would auto-commit while waiting on crypto
+      const records = await Promise.all(writes.map(entry => this.prepareWrite(entry.store, entry.record)));
+
+      const storeNames = Array.from(new Set(writes.map(e => e.store)));
+      await this.writeInTransaction(storeNames, transaction => {
+          writes.forEach((entry, i) => {
+              const store = transaction.objectStore(entry.store);
+              if (entry.action === 'add') {
+                  store.add(records[i]);
+              } else {
+                  store.put(records[i]);
               }
           });
       });
@@ -203,33 +397,11 @@ export class DBService {
     const tag = await this.getTagByName(tagName);
     if (!tag || !tag.id) return; 
 
-    const storeNames = ['tags', 'channels', 'playlists', 'favorites', 'watchLater'];
-    const tx = this.db.transaction(storeNames, 'readwrite');
-
-    // 2. Delete Tag from tags store
-    tx.objectStore('tags').delete(tag.id);
-
-    // 3. Cascade Delete: Remove string from all media items
-    ['channels', 'playlists', 'favorites', 'watchLater'].forEach(storeName => {
-        const store = tx.objectStore(storeName);
-        const req = store.openCursor();
-        req.onsuccess = (e) => {
-            const cursor = (e.target as IDBRequest).result as IDBCursorWithValue;
-            if (cursor) {
-                const item = cursor.value as MediaItem;
-                if (item.tags && item.tags.includes(tagName)) {
-                    item.tags = item.tags.filter(t => t !== tagName);
-                    cursor.update(item);
-                }
-                cursor.continue();
-            }
-        };
-    });
-
-    return new Promise((resolve, reject) => {
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-    });
+    // 2. Delete Tag from tags store and cascade: remove string from all media items
+    return this.cascadeTagChange(
+        tagStore => tagStore.delete(tag.id!),
+        tags => tags.includes(tagName) ? tags.filter(t => t !== tagName) : undefined
+    );
   }
 
   async renameTag(oldName: string, newName: string): Promise<void> {
@@ -238,69 +410,72 @@ export class DBService {
       const tag = await this.getTagByName(oldName);
       if (!tag || !tag.id) return;
 
-      const storeNames = ['tags', 'channels', 'playlists', 'favorites', 'watchLater'];
-      const tx = this.db.transaction(storeNames, 'readwrite');
-
-      // 1. Update Tag Store
-      const tagStore = tx.objectStore('tags');
-      tag.name = newName;
-      tagStore.put(tag);
-
-      // 2. Cascade Update: Replace string in all media items
-      ['channels', 'playlists', 'favorites', 'watchLater'].forEach(storeName => {
-          const store = tx.objectStore(storeName);
-          const req = store.openCursor();
-          req.onsuccess = (e) => {
-              const cursor = (e.target as IDBRequest).result as IDBCursorWithValue;
-              if (cursor) {
-                  const item = cursor.value as MediaItem;
-                  if (item.tags && item.tags.includes(oldName)) {
-                      item.tags = item.tags.map(t => t === oldName ? newName : t);
-                      cursor.update(item);
-                  }
-                  cursor.continue();
+      // 1. Update Tag Store and 2. cascade: replace string in all media items
+      return this.cascadeTagChange(
+          tagStore => tagStore.put({ ...tag, name: newName }),
+          tags => tags.includes(oldName) ? tags.map(t => t === oldName ? newName : t) : undefined
+      );
+  }
+
+  /**
+   * Applies a tag store change and rewrites the tag list of every affected media item in one transaction.
+   * Items are read (and decrypted) up front, since sealed records can't be edited through a cursor.
+   * `retag` returns the new tag list, or undefined when the item is unaffected.
+   */
+  private async cascadeTagChange(changeTag: (tagStore: IDBObjectStore) => void, retag: (tags: string[]) => string[] | undefined): Promise<void> {
+      const updates: { storeName: string; record: any }[] = [];
+
+      for (const storeName of MEDIA_STORES) {
+          const items = await this.getAll<MediaItem>(storeName);
+          for (const item of items) {
+              const tags = item.tags && retag(item.tags);
+              if (tags) {
+                  updates.push({ storeName, record: await this.prepareWrite(storeName, { ...item, tags }) });
               }
-          };
-      });
-      
-      return new Promise((resolve, reject) => {
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
+          }
+      }
+
+      return this.writeInTransaction(['tags', ...MEDIA_STORES], tx => {
+          changeTag(tx.objectStore('tags'));
+          updates.forEach(({ storeName, record }) => tx.objectStore(storeName).put(record));
       });
   }
 
   // Generic CRUD Helpers
 
   async getAll<T>(storeName: string): Promise<T[]> {
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<any[]>((resolve, reject) => {
       if (!this.db) return reject('DB not initialized');
       const transaction = this.db.transaction([storeName], 'readonly');
       const store = transaction.objectStore(storeName);
       const request = store.getAll();
 
-      request.onsuccess = () => resolve(request.result as T[]);
+      request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
+    return Promise.all(records.map(r => this.openRecord<T>(r)));
   }
 
   async get<T>(storeName: string, id: number | string): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
+    const record = await new Promise<any>((resolve, reject) => {
         if (!this.db) return reject('DB not initialized');
         const transaction = this.db.transaction([storeName], 'readonly');
         const store = transaction.objectStore(storeName);
         const request = store.get(id);
 
-        request.onsuccess = () => resolve(request.result as T);
+        request.onsuccess = () => resolve(request.result);
         request.onerror = () => reject(request.error);
     });
+    return record === undefined ? undefined : this.openRecord<T>(record);
   }
 
   async add<T>(storeName: string, item: T): Promise<any> {
+    const record = await this.prepareWrite(storeName, item);
     return new Promise((resolve, reject) => {
       if (!this.db) return reject('DB not initialized');
       const transaction = this.db.transaction([storeName], 'readwrite');
       const store = transaction.objectStore(storeName);
-      const request = store.add(item);
+      const request = store.add(record);
 
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
@@ -308,11 +483,12 @@ export class DBService {
   }
 
   async update<T>(storeName: string, item: T): Promise<void> {
+    const record = await this.prepareWrite(storeName, item);
     return new Promise((resolve, reject) => {
       if (!this.db) return reject('DB not initialized');
       const transaction = this.db.transaction([storeName], 'readwrite');
       const store = transaction.objectStore(storeName);
-      const request = store.put(item); // put updates if key exists
+      const request = store.put(record); // put updates if key exists
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -0,0 +1,174 @@
+import { MediaItem, VideoItem } from '../types';
+import { proxyService } from './proxy';
+import { PlatformProvider, VideoPage } from './platforms';
+
+// Paths that usually serve a syndication feed: /feed, /rss.xml, /podcast.atom...
+const FEED_PATH = /(\.(xml|rss|atom|rdf)|\/(feed|feeds|rss|atom|podcast))\/?$/i;
+const MEDIA_EXTENSION = /\.(mp4|m4v|webm|ogv|mov|m3u8|mpd|mp3|m4a|ogg|opus)(\?|#|$)/i;
+
+const isPlayable = (url: string, type: string, medium: string) => {
+    return type.startsWith('video/') || type.startsWith('audio/') ||
+           type.includes('mpegurl') || type.includes('dash') ||
+           medium === 'video' || medium === 'audio' ||
+           MEDIA_EXTENSION.test(url);
+};
+
+// --- XML helpers (namespace agnostic, feeds mix RSS, Atom, Media RSS and iTunes tags) ---
+
+const childrenNamed = (node: Element, name: string): Element[] => {
+    return Array.from(node.getElementsByTagNameNS('*', name));
+};
+
+const textOf = (node: Element, ...names: string[]): string => {
+    for (const name of names) {
+        const value = node.getElementsByTagName(name)[0]?.textContent ||
+                      childrenNamed(node, name)[0]?.textContent;
+        if (value && value.trim()) return value.trim();
+    }
+    return '';
+};
+
+/**
+ * First playable URL of an entry: RSS enclosure, Atom enclosure link, then Media RSS content.
+ */
+const findMediaUrl = (node: Element): string => {
+    const candidates: Element[] = [
+        ...Array.from(node.getElementsByTagName('enclosure')),
+        ...Array.from(node.getElementsByTagName('link')).filter(l => l.getAttribute('rel') === 'enclosure'),
+        ...childrenNamed(node, 'content').filter(c => c.hasAttribute('url'))
+    ];
+
+    for (const el of candidates) {
+        const url = el.getAttribute('url') || el.getAttribute('href') || '';
+        const type = (el.getAttribute('type') || '').toLowerCase();
+        const medium = (el.getAttribute('medium') || '').toLowerCase();
+        if (url && isPlayable(url, type, medium)) return url;
+    }
+    return '';
+};
+
+const findThumbnail = (node: Element, description: string): string => {
+    const mediaThumb = childrenNamed(node, 'thumbnail')[0];
+    if (mediaThumb?.getAttribute('url')) return mediaThumb.getAttribute('url')!;
+
+    const itunesImage = childrenNamed(node, 'image').find(i => i.hasAttribute('href'));
+    if (itunesImage) return itunesImage.getAttribute('href')!;
+
+    const imageContent = childrenNamed(node, 'content').find(c => c.getAttribute('medium') === 'image' || c.getAttribute('type')?.startsWith('image/'));
+    if (imageContent?.getAttribute('url')) return imageContent.getAttribute('url')!;
+
+    const imgMatch = description.match(/<img[^>]+src="([^"]+)"/);
+    return imgMatch ? imgMatch[1] : '';
+};
+
+const findLink = (node: Element): string => {
+    // Atom: <link rel="alternate" href="..."/>, RSS: <link>...</link>
+    const links = Array.from(node.getElementsByTagName('link'));
+    const alternate = links.find(l => l.hasAttribute('href') && (l.getAttribute('rel') || 'alternate') === 'alternate');
+    if (alternate) return alternate.getAttribute('href')!;
+    return links.find(l => !l.hasAttribute('href'))?.textContent?.trim() || '';
+};
+
+const toIsoDate = (value: string): string => {
+    const date = value ? new Date(value) : new Date();
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+export const feedService = {
+
+    // Feeds are a single document, there is never a next page
+    async getVideos(item: MediaItem): Promise<VideoPage> {
+        // Single entries saved to Favorites / Watch Later keep everything needed to play them
+        if (item.type === 'video') {
+            return { videos: [{
+                id: item.sourceId,
+                title: item.name,
+                description: '',
+                thumbnail: '',
+                author: 'Feed',
+                pubDate: new Date(item.createdAt).toISOString(),
+                link: item.url,
+                platform: 'feed',
+                mediaUrl: item.mediaUrl
+            }] };
+        }
+
+        const text = await proxyService.fetchText(item.sourceId);
+        if (!text.trim().startsWith('<')) {
+            throw new Error('Invalid feed response');
+        }
+
+        return { videos: this.parseFeed(text, item.name) };
+    },
+
+    /**
+     * Maps RSS 2.0, Atom and Media RSS entries to VideoItems.
+     */
+    parseFeed(text: string, fallbackAuthor: string): VideoItem[] {
+        const parser = new DOMParser();
+        const xml = parser.parseFromString(text, "text/xml");
+
+        if (xml.getElementsByTagName('parsererror').length > 0) {
+            throw new Error('Feed is not valid XML');
+        }
+
+        // 1. Feed level author (channel title / Atom feed title)
+        const root = xml.documentElement;
+        const channel = root.getElementsByTagName('channel')[0] || root;
+        const feedAuthor = channel.getElementsByTagName('title')[0]?.textContent?.trim() || fallbackAuthor;
+
+        // 2. RSS <item> or Atom <entry>
+        const rssItems = Array.from(xml.getElementsByTagName('item'));
+        const entries = rssItems.length > 0 ? rssItems : Array.from(xml.getElementsByTagName('entry'));
+
+        return entries.map(node => {
+            const description = textOf(node, 'description', 'summary', 'content', 'encoded');
+            const link = findLink(node);
+            const mediaUrl = findMediaUrl(node);
+
+            // Authors: RSS <author>/<dc:creator>/<itunes:author>, Atom <author><name>
+            const atomAuthor = node.getElementsByTagName('author')[0]?.getElementsByTagName('name')[0]?.textContent;
+
+            return {
+                id: textOf(node, 'guid', 'id') || link || mediaUrl,
+                title: textOf(node, 'title') || 'Untitled',
+                description: description.replace(/<[^>]*>/g, '').slice(0, 200),
+                thumbnail: findThumbnail(node, description),
+                author: atomAuthor?.trim() || textOf(node, 'creator', 'author') || feedAuthor,
+                pubDate: toIsoDate(textOf(node, 'pubDate', 'published', 'updated', 'date')),
+                link: link || mediaUrl,
+                platform: 'feed',
+                mediaUrl: mediaUrl || undefined
+            };
+        }).filter(v => v.id);
+    }
+};
+
+export const feedProvider: PlatformProvider = {
+    id: 'feed',
+    name: 'RSS Feed',
+    credentials: [],
+
+    setCredential() {
+        // Feeds are public, fetched through the proxy chain
+    },
+
+    /**
+     * Recognizes common feed URLs on any host. The whole URL is the source ID.
+     */
+    detect(url, contextType) {
+        const isFeedPath = FEED_PATH.test(url.pathname);
+        const isFeedQuery = ['feed', 'rss', 'atom'].some(p => url.searchParams.has(p)) ||
+                            /^(rss|atom|feed)/i.test(url.searchParams.get('format') || '');
+
+        if (!isFeedPath && !isFeedQuery) return null;
+        return { platform: 'feed', sourceId: url.href, type: contextType === 'playlist' ? 'playlist' : 'channel' };
+    },
+
+    getVideos: item => feedService.getVideos(item),
+
+    // Feed entries link to web pages, playback uses the entry's media URL instead
+    getEmbedUrl: () => null,
+
+    getWebUrl: sourceId => sourceId
+};
@@ -0,0 +1,134 @@
+import { MediaItem, VideoItem } from '../types';
+import { dbService } from './db';
+import { PlatformProvider, VideoPage } from './platforms';
+
+// Copies live in the Origin Private File System, one directory per vault database
+const ROOT_DIR = 'nomad-local-media';
+
+export const LOCAL_PLATFORM = 'local';
+
+// Object URLs handed to <video> elements during this session (sourceId -> blob: URL)
+const objectUrls = new Map<string, string>();
+
+const mediaRoot = async (): Promise<FileSystemDirectoryHandle> => {
+    const root = await navigator.storage.getDirectory();
+    return root.getDirectoryHandle(ROOT_DIR, { create: true });
+};
+
+const vaultDirectory = async (): Promise<FileSystemDirectoryHandle> => {
+    const dbName = dbService.getName();
+    if (!dbName) throw new Error('No vault is open');
+    return (await mediaRoot()).getDirectoryHandle(dbName, { create: true });
+};
+
+export const localFileService = {
+
+    isSupported(): boolean {
+        return typeof navigator !== 'undefined' && !!navigator.storage?.getDirectory &&
+               typeof FileSystemFileHandle !== 'undefined' && 'createWritable' in FileSystemFileHandle.prototype;
+    },
+
+    /**
+     * Copies a picked or dropped file into the open vault's storage.
+     * Returns the stored file name, used as the item's sourceId.
+     */
+    async importFile(file: File): Promise<string> {
+        if (!this.isSupported()) throw new Error('This browser cannot store local files.');
+
+        const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+        const sourceId = `${window.crypto.randomUUID()}${extension}`;
+
+        const dir = await vaultDirectory();
+        const handle = await dir.getFileHandle(sourceId, { create: true });
+        const writable = await handle.createWritable();
+        try {
+            await file.stream().pipeTo(writable); // Closes the writable when done
+        } catch (e) {
+            await dir.removeEntry(sourceId).catch(() => {});
+            throw new Error(`Could not copy "${file.name}": ${(e as Error).message || 'storage error'}`);
+        }
+        return sourceId;
+    },
+
+    async getObjectUrl(sourceId: string): Promise<string> {
+        const cached = objectUrls.get(sourceId);
+        if (cached) return cached;
+
+        let file: File;
+        try {
+            const handle = await (await vaultDirectory()).getFileHandle(sourceId);
+            file = await handle.getFile();
+        } catch {
+            throw new Error('This file is not stored on this device. Add it again from disk.');
+        }
+
+        const url = URL.createObjectURL(file);
+        objectUrls.set(sourceId, url);
+        return url;
+    },
+
+    async remove(sourceId: string): Promise<void> {
+        const url = objectUrls.get(sourceId);
+        if (url) URL.revokeObjectURL(url);
+        objectUrls.delete(sourceId);
+
+        try {
+            await (await vaultDirectory()).removeEntry(sourceId);
+        } catch (e: any) {
+            if (e?.name !== 'NotFoundError') throw e;
+        }
+    },
+
+    /**
+     * Deletes every file copied into a vault (vault deletion).
+     */
+    async removeVaultFiles(dbName: string): Promise<void> {
+        if (!this.isSupported()) return;
+        try {
+            await (await mediaRoot()).removeEntry(dbName, { recursive: true });
+        } catch (e: any) {
+            if (e?.name !== 'NotFoundError') throw e;
+        }
+    },
+
+    /**
+     * Releases the object URLs created during the session (logout / lock).
+     */
+    revokeAll() {
+        objectUrls.forEach(url => URL.revokeObjectURL(url));
+        objectUrls.clear();
+    }
+};
+
+export const localProvider: PlatformProvider = {
+    id: LOCAL_PLATFORM,
+    name: 'Local File',
+    credentials: [],
+
+    setCredential() {
+        // Files never leave the device
+    },
+
+    // Added through the file picker or drag & drop, never from a URL
+    detect: () => null,
+
+    async getVideos(item: MediaItem): Promise<VideoPage> {
+        // No mediaUrl here: object URLs only live for the session, the player resolves one when needed
+        return { videos: [{
+            id: item.sourceId,
+            title: item.name,
+            description: '',
+            thumbnail: '',
+            author: 'Local File',
+            pubDate: new Date(item.createdAt).toISOString(),
+            link: '',
+            platform: LOCAL_PLATFORM
+        }] };
+    },
+
+    getEmbedUrl: () => null,
+
+    getWebUrl: () => '',
+
+    resolveMediaUrl: sourceId => localFileService.getObjectUrl(sourceId)
+};
@@ -1,32 +1,40 @@
 
-import { MediaItem, VideoItem, Platform } from '../types';
-import { youtubeService } from './youtube';
-import { vimeoService } from './vimeo';
-import { dailymotionService } from './dailymotion';
+import { MediaItem, VideoItem, Platform, ContentFilters } from '../types';
 import { dbService } from './db';
-
-interface DetectedSource {
-    platform: Platform;
-    sourceId: string;
-    type: 'channel' | 'playlist' | 'video';
-}
+import { platformRegistry, DetectedSource, SourceType, SourceMetadata, VideoPage, DEFAULT_PLATFORM } from './platforms';
 
 const DEFAULT_CACHE_DURATION = 8 * 60 * 60 * 1000; // 8 Hours Default
 
+/**
+ * Whether a video survives the item's content filters. Unknown details never hide a video.
+ */
+const passesFilters = (video: VideoItem, filters: ContentFilters): boolean => {
+    if (filters.hideShorts && video.isShort) return false;
+    if (filters.hideLive && (video.liveStatus === 'live' || video.wasLive)) return false;
+    if (filters.hideUpcoming && (video.liveStatus === 'upcoming' || video.liveStatus === 'premiere')) return false;
+    if (video.duration) {
+        if (filters.minDuration && video.duration < filters.minDuration) return false;
+        if (filters.maxDuration && video.duration > filters.maxDuration) return false;
+    }
+    return true;
+};
+
 export const mediaResolver = {
     
     /**
-     * Delegates the fetch request to the appropriate service plugin.
+     * Delegates the fetch request to the platform provider (see services/platforms.ts).
      * Implements intelligent caching to reduce API/Proxy hits.
+     * With a `cursor`, fetches the next page and returns it appended to the cached pages.
      */
-    async getVideos(item: MediaItem, forceRefresh = false): Promise<VideoItem[]> {
+    async getVideos(item: MediaItem, forceRefresh = false, cursor?: string): Promise<VideoPage> {
         
         let targetItem = item;
 
         // 1. FRESHNESS CHECK:
         // Even if the UI passed a "stale" item (missing cachedContent), the DB might have it.
         // If the UI state is old, we fetch the latest version from DB first to see if we can skip network.
-        if (!forceRefresh && !targetItem.cachedContent && targetItem.id) {
+        // Next pages always start from the stored list so earlier pages are never lost.
+        if (((!forceRefresh && !targetItem.cachedContent) || cursor) && targetItem.id) {
              const storeName = targetItem.type === 'channel' ? 'channels' : (targetItem.type === 'playlist' ? 'playlists' : null);
              if (storeName) {
                  const freshItem = await dbService.get<MediaItem>(storeName, targetItem.id);
@@ -36,57 +44,68 @@ export const mediaResolver = {
              }
         }
 
-        // 2. Check Cache
-        if (!forceRefresh && targetItem.cachedContent && targetItem.lastFetched) {
+        // 2. Check Cache (first page only)
+        if (!cursor && !forceRefresh && targetItem.cachedContent && targetItem.lastFetched) {
             const settings = await dbService.getSettings();
             const cacheDuration = settings?.feedCacheDuration || DEFAULT_CACHE_DURATION;
             const now = Date.now();
             
             if (now - targetItem.lastFetched < cacheDuration) {
                 console.log(`[Cache Hit] Serving ${targetItem.name} from IndexedDB`);
-                return targetItem.cachedContent;
+                return { videos: targetItem.cachedContent, nextCursor: targetItem.nextCursor };
             }
         }
 
         // 3. Network Fetch
-        console.log(`[Network Fetch] retrieving ${targetItem.name}`);
-        const platform = targetItem.platform || 'youtube'; // Default for legacy data
-        let videos: VideoItem[] = [];
-
-        switch (platform) {
-            case 'vimeo':
-                videos = await vimeoService.getVideos(targetItem);
-                break;
-            case 'dailymotion':
-                videos = await dailymotionService.getVideos(targetItem);
-                break;
-            case 'youtube':
-            default:
-                videos = await youtubeService.getVideos(targetItem);
-                break;
+        console.log(`[Network Fetch] retrieving ${targetItem.name}${cursor ? ' (next page)' : ''}`);
+        let page: VideoPage;
+        try {
+            page = await platformRegistry.get(targetItem.platform).getVideos(targetItem, cursor);
+        } catch (e: any) {
+            // Stale videos beat an error screen, the caller still gets told why they weren't refreshed
+            if (cursor || !targetItem.cachedContent?.length) throw e;
+            console.warn(`[Network Fetch] failed for ${targetItem.name}, serving cached videos`, e);
+            return { videos: targetItem.cachedContent, nextCursor: targetItem.nextCursor, error: e.message || 'Failed to refresh content.' };
+        }
+
+        // Filtered videos are never cached, a page may come back shorter (or empty) with a next cursor
+        const filters = targetItem.filters;
+        let videos = filters ? page.videos.filter(v => passesFilters(v, filters)) : page.videos;
+
+        // A first page replaces the cache, next pages are appended (skipping entries already listed)
+        if (cursor) {
+            const existing = targetItem.cachedContent || [];
+            const known = new Set(existing.map(v => v.id));
+            videos = [...existing, ...videos.filter(v => !known.has(v.id))];
         }
 
         // 4. Update Cache (Only for Channels and Playlists)
         if (videos.length > 0 && (targetItem.type === 'channel' || targetItem.type === 'playlist')) {
             const storeName = targetItem.type === 'channel' ? 'channels' : 'playlists';
-            // Create updated item object
-            const updatedItem: MediaItem = {
-                ...targetItem,
+            const cacheFields: Partial<MediaItem> = {
                 cachedContent: videos,
-                lastFetched: Date.now()
+                nextCursor: page.nextCursor,
+                // Loading more doesn't make the first page any fresher
+                lastFetched: cursor && targetItem.lastFetched ? targetItem.lastFetched : Date.now()
             };
-            
-            // Fire and forget update to not block UI
-            dbService.update(storeName, updatedItem).catch(e => console.warn("Failed to cache feed", e));
+
+            // Fire and forget update to not block UI. Starts from the stored record because providers
+            // may have updated it during the fetch (resolved channel ID, uploads playlist)
+            const update = async () => {
+                const stored = targetItem.id ? await dbService.get<MediaItem>(storeName, targetItem.id) : undefined;
+                await dbService.update(storeName, { ...targetItem, ...stored, ...cacheFields });
+            };
+            update().catch(e => console.warn("Failed to cache feed", e));
         }
 
-        return videos;
+        return { videos, nextCursor: page.nextCursor };
     },
 
     /**
      * Parses a raw input string (URL or ID) and determines the platform and ID.
+     * Platforms in `skip` are not asked again (they declined the source in resolveSource).
      */
-    detectSource(input: string, contextType: 'channel' | 'playlist' | 'video'): DetectedSource {
+    detectSource(input: string, contextType: SourceType, skip: Platform[] = []): DetectedSource {
         const text = input.trim();
         let url: URL;
 
@@ -94,112 +113,48 @@ export const mediaResolver = {
         const isRawId = !text.includes('.') && !text.includes('://') && !text.includes(' ');
 
         if (isRawId) {
-            return { platform: 'youtube', sourceId: text, type: contextType };
+            return { platform: DEFAULT_PLATFORM, sourceId: text, type: contextType };
         }
 
         try {
             url = new URL(text.startsWith('http') ? text : `https://${text}`);
         } catch {
-            return { platform: 'youtube', sourceId: text, type: contextType };
-        }
-
-        const hostname = url.hostname.replace('www.', '');
-        const path = url.pathname;
-        const pathParts = path.split('/').filter(p => p); // Removes empty strings, handling trailing slashes
-
-        // --- VIMEO DETECTION ---
-        if (hostname.includes('vimeo.com')) {
-            // Case 1: Channel Video -> vimeo.com/channels/staffpicks/123456
-            if (pathParts.includes('channels') && pathParts.length >= 3) {
-                 const lastPart = pathParts[pathParts.length - 1];
-                 if (!isNaN(Number(lastPart))) {
-                     return { platform: 'vimeo', sourceId: lastPart.trim(), type: 'video' };
-                 }
-            }
-
-            // Case 2: Standard Video -> vimeo.com/123456
-            const potentialId = pathParts[pathParts.length - 1];
-            if (!isNaN(Number(potentialId))) {
-                return { platform: 'vimeo', sourceId: potentialId.trim(), type: 'video' };
-            }
-
-            // Case 3: Channel Collection -> vimeo.com/channels/staffpicks
-            // We must explicitly store "channels/" prefix so the service knows to use the channels RSS endpoint
-            if (pathParts[0] === 'channels' && pathParts.length >= 2) {
-                return { platform: 'vimeo', sourceId: `channels/${pathParts[1].trim()}`, type: 'channel' };
-            }
-
-            // Case 4: User/Profile -> vimeo.com/username
-            // If it's not a video ID and not 'channels', assume User
-            if (pathParts.length > 0) {
-                return { platform: 'vimeo', sourceId: pathParts[0].trim(), type: 'channel' };
-            }
-        }
-
-        // --- DAILYMOTION DETECTION ---
-        if (hostname.includes('dailymotion.com') || hostname.includes('dai.ly')) {
-            
-            // 1. Video Short URL: dai.ly/x12345
-            if (hostname.includes('dai.ly')) {
-                return { platform: 'dailymotion', sourceId: path.slice(1).trim(), type: 'video' };
-            }
-
-            // 2. Standard Video: /video/x12345
-            if (path.includes('/video/')) {
-                 const id = path.split('/video/')[1].split('_')[0]; // remove slug if present
-                 return { platform: 'dailymotion', sourceId: id.trim(), type: 'video' };
-            }
-
-            // 3. Playlist: /playlist/x6d14t
-            if (path.includes('/playlist/')) {
-                const id = path.split('/playlist/')[1].split('_')[0];
-                return { platform: 'dailymotion', sourceId: id.trim(), type: 'playlist' };
-            }
-            
-            // 4. Channel (User): /euronews-fr (Root path) or /user/euronews-fr
-            const parts = path.split('/').filter(p => p);
-            if (parts.length > 0) {
-                // Handle legacy /user/username or modern /username
-                const id = parts[0] === 'user' && parts.length > 1 ? parts[1] : parts[0];
-                return { platform: 'dailymotion', sourceId: id.trim(), type: 'channel' };
-            }
+            return { platform: DEFAULT_PLATFORM, sourceId: text, type: contextType };
         }
 
-        // --- YOUTUBE DETECTION (Fallback for standard youtube URLs) ---
-        if (hostname.includes('youtube.com') || hostname.includes('youtu.be')) {
-            let id = '';
-            if (url.searchParams.has('v')) id = url.searchParams.get('v') || '';
-            else if (path.startsWith('/embed/')) id = path.split('/embed/')[1];
-            else if (hostname.includes('youtu.be')) id = path.slice(1);
-            else if (path.startsWith('/shorts/')) id = path.split('/shorts/')[1];
-            
-            if (id) return { platform: 'youtube', sourceId: id.trim(), type: 'video' };
-            
-            if (url.searchParams.has('list')) {
-                const listId = url.searchParams.get('list') || '';
-                return { platform: 'youtube', sourceId: listId.trim(), type: 'playlist' };
-            }
+        // Default Fallback
+        return platformRegistry.detect(url, contextType, skip) || { platform: DEFAULT_PLATFORM, sourceId: text, type: contextType };
+    },
 
-            if (path.startsWith('/channel/') || path.startsWith('/c/') || path.startsWith('/@')) {
-                const segments = path.split('/').filter(p => p);
-                return { platform: 'youtube', sourceId: segments[segments.length - 1].trim(), type: 'channel' };
-            }
+    /**
+     * Lets the provider swap unstable references (handles, custom names) for permanent IDs. Throws when that fails.
+     * When the provider declines the source, `input` is detected again without it.
+     */
+    async resolveSource(source: DetectedSource, input?: string, contextType: SourceType = source.type): Promise<DetectedSource> {
+        const declined: Platform[] = [];
+        let current = source;
+
+        while (true) {
+            const provider = platformRegistry.get(current.platform);
+            const resolved = provider.resolveSource ? await provider.resolveSource(current) : current;
+            if (resolved) return resolved;
+
+            declined.push(current.platform);
+            if (!input) throw new Error(`This link is not a ${provider.name} source.`);
+            current = this.detectSource(input, contextType, declined);
+            if (declined.includes(current.platform)) throw new Error(`This link is not a ${provider.name} source.`);
         }
+    },
 
-        // Default Fallback
-        return { platform: 'youtube', sourceId: text, type: contextType };
+    /**
+     * Name, artwork and description of a detected source. Empty when the provider can't tell.
+     */
+    async getMetadata(source: DetectedSource): Promise<SourceMetadata> {
+        const provider = platformRegistry.get(source.platform);
+        return provider.getMetadata ? provider.getMetadata(source) : {};
     },
 
-    getEmbedUrl(item: { platform?: Platform, sourceId: string }): string {
-        const p = item.platform || 'youtube';
-        switch (p) {
-            case 'vimeo':
-                return `https://player.vimeo.com/video/${item.sourceId}`;
-            case 'dailymotion':
-                return `https://www.dailymotion.com/embed/video/${item.sourceId}?autoplay=1`;
-            case 'youtube':
-            default:
-                return `https://www.youtube.com/embed/${item.sourceId}?autoplay=1`;
-        }
+    getEmbedUrl(item: { platform?: Platform, sourceId: string, instance?: string }): string | null {
+        return platformRegistry.get(item.platform).getEmbedUrl(item.sourceId, item.instance);
     }
 };
@@ -0,0 +1,186 @@
+import { MediaItem, Tag, DEFAULT_CHANNELS, DEFAULT_PLAYLISTS, DEFAULT_TAGS } from '../types';
+
+/**
+ * A single versioned schema step. Steps run inside the `versionchange` transaction,
+ * in ascending order, for every version above the one the database was opened at.
+ * A step may create stores/indexes or transform existing records in place,
+ * but must never clear user data.
+ *
+ * Records of the library stores may be sealed (library encryption, see SEALED_STORES in db.ts):
+ * on disk they only hold their index fields in the clear plus an encrypted `sealed` blob.
+ * No key is available during an upgrade, so a step that rewrites records with a cursor
+ * can only touch those clear fields. Anything that needs the sealed fields has to unseal
+ * the records instead: run it after login (dbService.unlockLibrary), through the db helpers.
+ */
+export interface Migration {
+    version: number;
+    description: string;
+    migrate(db: IDBDatabase, tx: IDBTransaction, oldVersion: number): void;
+}
+
+export const MEDIA_STORES = ['channels', 'playlists', 'favorites', 'watchLater'];
+
+/**
+ * Walks every record of a store and writes back the ones the transform changed.
+ * The transform returns the updated record, or undefined to leave it untouched.
+ * Sealed records reach the transform as stored (index fields + `sealed`), it must leave those alone.
+ */
+export const updateEachRecord = <T>(store: IDBObjectStore, transform: (record: T) => T | undefined): void => {
+    const req = store.openCursor();
+    req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return;
+        const updated = transform(cursor.value as T);
+        if (updated) cursor.update(updated);
+        cursor.continue();
+    };
+};
+
+/**
+ * Cleans a stored tag list: accepts legacy comma separated strings,
+ * trims names and removes blanks and duplicates.
+ */
+export const normalizeTags = (tags: unknown): string[] => {
+    const raw = Array.isArray(tags) ? tags : (typeof tags === 'string' ? tags.split(',') : []);
+    const clean = raw
+        .filter((t): t is string => typeof t === 'string')
+        .map(t => t.trim())
+        .filter(t => t.length > 0);
+    return Array.from(new Set(clean));
+};
+
+const sameTags = (a: unknown, b: string[]) => {
+    return Array.isArray(a) && a.length === b.length && a.every((t, i) => t === b[i]);
+};
+
+export const MIGRATIONS: Migration[] = [
+    {
+        // Pre-v4 schemas were never tracked step by step, so this one is idempotent
+        // and also fills in any core store an early build may have missed.
+        version: 4,
+        description: 'Create core stores (auth, channels, playlists, favorites, tags, settings)',
+        migrate(db) {
+            if (!db.objectStoreNames.contains('auth')) {
+                db.createObjectStore('auth', { keyPath: 'username' });
+            }
+            if (!db.objectStoreNames.contains('channels')) {
+                const store = db.createObjectStore('channels', { keyPath: 'id', autoIncrement: true });
+                store.createIndex('name', 'name', { unique: false });
+            }
+            if (!db.objectStoreNames.contains('playlists')) {
+                db.createObjectStore('playlists', { keyPath: 'id', autoIncrement: true });
+            }
+            if (!db.objectStoreNames.contains('favorites')) {
+                const store = db.createObjectStore('favorites', { keyPath: 'id', autoIncrement: true });
+                store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+            }
+            if (!db.objectStoreNames.contains('tags')) {
+                const store = db.createObjectStore('tags', { keyPath: 'id', autoIncrement: true });
+                store.createIndex('name', 'name', { unique: true });
+            }
+            if (!db.objectStoreNames.contains('settings')) {
+                db.createObjectStore('settings', { keyPath: 'id' });
+            }
+        }
+    },
+    {
+        version: 4,
+        description: 'Seed default channels, playlists and tags on a fresh install',
+        migrate(_db, tx, oldVersion) {
+            // Existing vaults keep whatever the user curated, defaults are only for brand new databases.
+            if (oldVersion !== 0) return;
+
+            const channelStore = tx.objectStore('channels');
+            DEFAULT_CHANNELS.forEach(ch => {
+                channelStore.add({
+                    ...ch,
+                    url: `https://www.youtube.com/channel/${ch.sourceId}`,
+                    createdAt: Date.now()
+                });
+            });
+
+            const playlistStore = tx.objectStore('playlists');
+            DEFAULT_PLAYLISTS.forEach(pl => {
+                playlistStore.add({
+                    ...pl,
+                    url: `https://www.youtube.com/playlist?list=${pl.sourceId}`,
+                    createdAt: Date.now()
+                });
+            });
+
+            const tagStore = tx.objectStore('tags');
+            DEFAULT_TAGS.forEach(tag => tagStore.add({ name: tag }));
+        }
+    },
+    {
+        version: 5,
+        description: 'Create Watch Later store',
+        migrate(db) {
+            if (!db.objectStoreNames.contains('watchLater')) {
+                db.createObjectStore('watchLater', { keyPath: 'id', autoIncrement: true });
+            }
+        }
+    },
+    {
+        version: 6,
+        description: 'Create lessons store',
+        migrate(db) {
+            if (!db.objectStoreNames.contains('lessons')) {
+                const store = db.createObjectStore('lessons', { keyPath: 'id', autoIncrement: true });
+                store.createIndex('videoId', 'videoId', { unique: false });
+            }
+        }
+    },
+    {
+        version: 7,
+        description: 'Backfill platform on media items, normalize tag lists and register missing tags',
+        migrate(_db, tx) {
+            const tagStore = tx.objectStore('tags');
+            const req = tagStore.getAll();
+
+            req.onsuccess = () => {
+                const known = new Set((req.result as Tag[]).map(t => t.name));
+
+                MEDIA_STORES.forEach(storeName => {
+                    updateEachRecord<MediaItem>(tx.objectStore(storeName), item => {
+                        const tags = normalizeTags(item.tags);
+                        tags.forEach(name => {
+                            if (!known.has(name)) {
+                                known.add(name);
+                                tagStore.add({ name });
+                            }
+                        });
+
+                        if (item.platform && sameTags(item.tags, tags)) return undefined;
+                        return { ...item, platform: item.platform || 'youtube', tags };
+                    });
+                });
+            };
+        }
+    },
+    {
+        version: 8,
+        description: 'Create unlock audit log store',
+        migrate(db) {
+            if (!db.objectStoreNames.contains('auditLog')) {
+                const store = db.createObjectStore('auditLog', { keyPath: 'id', autoIncrement: true });
+                store.createIndex('timestamp', 'timestamp', { unique: false });
+            }
+        }
+    }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Applies every migration newer than `oldVersion` up to `newVersion`, in order.
+ * Meant to be called from `onupgradeneeded`.
+ */
+export const runMigrations = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number, newVersion = DB_VERSION): void => {
+    MIGRATIONS
+        .filter(m => m.version > oldVersion && m.version <= newVersion)
+        .forEach(m => {
+            console.log(`[DB Migration] v${m.version}: ${m.description}`);
+            m.migrate(db, tx, oldVersion);
+        });
+};
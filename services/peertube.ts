@@ -0,0 +1,253 @@
+import { MediaItem, VideoItem } from '../types';
+import { proxyService } from './proxy';
+import { PlatformProvider, VideoPage } from './platforms';
+
+// PeerTube is federated: every item carries the host of the instance it was added from
+const PAGE_SIZE = 50;
+
+// Videos and playlists: base58 short UUIDs in /w/ links, full UUIDs in older ones
+const SHORT_UUID = /^[1-9A-HJ-NP-Za-km-z]{20,22}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Accounts and channels: local names, or federated "name@host" handles
+const ACTOR_NAME = /^[\w.-]+(@[\w-]+(\.[\w-]+)+(:\d+)?)?$/;
+
+const isVideoId = (id?: string) => !!id && (SHORT_UUID.test(id) || UUID.test(id));
+const isActorId = (id?: string) => !!id && ACTOR_NAME.test(id); // Also matches channel UUIDs
+
+const channelPath = (sourceId: string) => {
+    // sourceId keeps the URL prefix: "c/<channel>" for video channels, "a/<account>" for accounts
+    const [kind, ...rest] = sourceId.split('/');
+    return { isAccount: kind === 'a', name: rest.join('/') };
+};
+
+export const peertubeService = {
+
+    /**
+     * `cursor` is the API's `start` offset of the next page.
+     */
+    async getVideos(item: MediaItem, cursor?: string): Promise<VideoPage> {
+        if (!item.instance) {
+            console.error('PeerTube item has no instance host:', item.name);
+            return { videos: [] };
+        }
+
+        // 1. Public REST API (no auth needed, CORS enabled on most instances)
+        try {
+            return await this.fetchViaApi(item, item.instance, Number(cursor) || 0);
+        } catch (e: any) {
+            if (cursor) throw e; // RSS feeds only carry the latest videos
+            console.warn("PeerTube API failed, falling back to RSS.", e);
+        }
+
+        // 2. Fallback: instance RSS feeds through the proxy chain
+        return { videos: await this.fetchFallback(item, item.instance) };
+    },
+
+    async fetchViaApi(item: MediaItem, host: string, start = 0): Promise<VideoPage> {
+        const base = `https://${host}/api/v1`;
+
+        if (item.type === 'video') {
+            const res = await fetch(`${base}/videos/${encodeURIComponent(item.sourceId)}`);
+            if (!res.ok) throw new Error('PeerTube video not found');
+            return { videos: [this.mapApiToItem(await res.json(), host)] };
+        }
+
+        let endpoint = '';
+        if (item.type === 'playlist') {
+            endpoint = `/video-playlists/${encodeURIComponent(item.sourceId)}/videos?start=${start}&count=${PAGE_SIZE}`;
+        } else {
+            const { isAccount, name } = channelPath(item.sourceId);
+            const collection = isAccount ? 'accounts' : 'video-channels';
+            endpoint = `/${collection}/${encodeURIComponent(name)}/videos?start=${start}&count=${PAGE_SIZE}&sort=-publishedAt`;
+        }
+
+        const res = await fetch(`${base}${endpoint}`);
+        if (!res.ok) throw new Error('PeerTube API Error');
+        const data = await res.json();
+        const entries: any[] = data.data || [];
+
+        // Playlist entries wrap the video, and deleted/private videos come back as null
+        const videos = entries
+            .map((d: any) => item.type === 'playlist' ? d.video : d)
+            .filter((v: any) => v)
+            .map((v: any) => this.mapApiToItem(v, host));
+
+        const next = start + entries.length;
+        return { videos, nextCursor: entries.length > 0 && next < (data.total || 0) ? String(next) : undefined };
+    },
+
+    /**
+     * Whether the host runs PeerTube, judged by its public config endpoint.
+     */
+    async isInstance(host?: string): Promise<boolean> {
+        if (!host) return false;
+        const url = `https://${host}/api/v1/config`;
+        try {
+            let text: string;
+            try {
+                const res = await fetch(url);
+                if (!res.ok) return false;
+                text = await res.text();
+            } catch {
+                // Blocked by CORS, ask through the proxy chain
+                text = await proxyService.fetchText(url);
+            }
+            const config = JSON.parse(text);
+            return typeof config?.serverVersion === 'string' && !!config.instance;
+        } catch {
+            return false;
+        }
+    },
+
+    mapApiToItem(data: any, host: string): VideoItem {
+        // Federated videos are served (and embedded) from their origin instance
+        const origin = data.channel?.host || data.account?.host || host;
+        const id = data.shortUUID || data.uuid;
+
+        return {
+            id,
+            title: data.name,
+            description: data.truncatedDescription || data.description || '',
+            thumbnail: data.thumbnailPath ? `https://${host}${data.thumbnailPath}` : '',
+            author: data.channel?.displayName || data.account?.displayName || 'PeerTube',
+            pubDate: data.publishedAt || data.createdAt || new Date().toISOString(),
+            link: data.url || `https://${origin}/w/${id}`,
+            platform: 'peertube',
+            instance: origin,
+            duration: data.duration || undefined,
+            views: data.views != null ? String(data.views) : undefined,
+            // Lives are on air in state 1 (published), waiting for their stream in state 4 and over in state 5
+            liveStatus: !data.isLive ? undefined : data.state?.id === 1 ? 'live' : data.state?.id === 4 ? 'upcoming' : undefined,
+            wasLive: data.isLive && data.state?.id === 5 ? true : undefined
+        };
+    },
+
+    async fetchFallback(item: MediaItem, host: string): Promise<VideoItem[]> {
+        // Playlists have no RSS feed
+        if (item.type === 'playlist') return [];
+
+        // Single video: keep it playable from the stored data
+        if (item.type === 'video') {
+            return [{
+                id: item.sourceId,
+                title: item.name,
+                description: 'Metadata unavailable',
+                thumbnail: '',
+                author: 'PeerTube',
+                pubDate: new Date().toISOString(),
+                link: item.url || `https://${host}/w/${item.sourceId}`,
+                platform: 'peertube',
+                instance: host
+            }];
+        }
+
+        try {
+            const { isAccount, name } = channelPath(item.sourceId);
+            const param = isAccount ? 'accountName' : 'videoChannelName';
+            const text = await proxyService.fetchText(`https://${host}/feeds/videos.xml?${param}=${encodeURIComponent(name)}`);
+
+            if (!text.trim().startsWith('<')) {
+                throw new Error('Invalid RSS response');
+            }
+
+            const parser = new DOMParser();
+            const xml = parser.parseFromString(text, "text/xml");
+            const items = Array.from(xml.getElementsByTagName("item"));
+
+            return items.map(node => {
+                const getTag = (tagName: string) => {
+                    return node.getElementsByTagName(tagName)[0]?.textContent ||
+                           node.getElementsByTagNameNS("*", tagName)[0]?.textContent || "";
+                };
+
+                const link = getTag("link");
+                const description = getTag("description");
+                const pubDate = getTag("pubDate") || new Date().toISOString();
+                const mediaThumb = node.getElementsByTagNameNS("*", "thumbnail")[0];
+
+                let linkHost = host;
+                try { linkHost = new URL(link).host; } catch { /* keep the item's instance */ }
+
+                return {
+                    id: link.split('/').filter(p => p).pop() || "",
+                    title: getTag("title") || "Untitled",
+                    description: description.replace(/<[^>]*>/g, '').slice(0, 200),
+                    thumbnail: mediaThumb?.getAttribute("url") || "",
+                    author: getTag("creator") || item.name,
+                    pubDate: new Date(pubDate).toISOString(),
+                    link,
+                    platform: 'peertube',
+                    instance: linkHost
+                };
+            }).filter(v => v.id);
+
+        } catch (error) {
+            console.error('PeerTube RSS Fetch Error:', error);
+            return [];
+        }
+    }
+};
+
+export const peertubeProvider: PlatformProvider = {
+    id: 'peertube',
+    name: 'PeerTube',
+    credentials: [],
+
+    setCredential() {
+        // Public instances need no credentials
+    },
+
+    /**
+     * Instances can live on any host, so recognition relies on PeerTube's URL layout and ID formats,
+     * resolveSource() then confirms the host. Registered after the other providers so their own URLs are never claimed here.
+     */
+    detect(url) {
+        const host = url.host;
+        const parts = url.pathname.split('/').filter(p => p).map(p => decodeURIComponent(p));
+
+        // 1. Playlist: /w/p/<id> (legacy: /videos/watch/playlist/<id>)
+        if (parts[0] === 'w' && parts[1] === 'p' && isVideoId(parts[2])) {
+            return { platform: 'peertube', sourceId: parts[2], type: 'playlist', instance: host };
+        }
+        if (parts[0] === 'videos' && parts[1] === 'watch' && parts[2] === 'playlist' && isVideoId(parts[3])) {
+            return { platform: 'peertube', sourceId: parts[3], type: 'playlist', instance: host };
+        }
+
+        // 2. Video: /w/<id> (legacy: /videos/watch/<uuid>)
+        if (parts[0] === 'w' && isVideoId(parts[1])) {
+            return { platform: 'peertube', sourceId: parts[1], type: 'video', instance: host };
+        }
+        if (parts[0] === 'videos' && parts[1] === 'watch' && isVideoId(parts[2])) {
+            return { platform: 'peertube', sourceId: parts[2], type: 'video', instance: host };
+        }
+
+        // 3. Video channel: /c/<name> (legacy: /video-channels/<name>)
+        if ((parts[0] === 'c' || parts[0] === 'video-channels') && isActorId(parts[1])) {
+            return { platform: 'peertube', sourceId: `c/${parts[1]}`, type: 'channel', instance: host };
+        }
+
+        // 4. Account: /a/<name> (legacy: /accounts/<name>)
+        if ((parts[0] === 'a' || parts[0] === 'accounts') && isActorId(parts[1])) {
+            return { platform: 'peertube', sourceId: `a/${parts[1]}`, type: 'channel', instance: host };
+        }
+
+        return null;
+    },
+
+    /**
+     * Any site can use PeerTube-like paths, only a confirmed instance keeps the source.
+     */
+    async resolveSource(source) {
+        return await peertubeService.isInstance(source.instance) ? source : null;
+    },
+
+    getVideos: (item, cursor) => peertubeService.getVideos(item, cursor),
+
+    getEmbedUrl: (sourceId, instance) => `https://${instance}/videos/embed/${sourceId}?autoplay=1`,
+
+    getWebUrl(sourceId, type, instance) {
+        if (type === 'playlist') return `https://${instance}/w/p/${sourceId}`;
+        if (type === 'channel') return `https://${instance}/${sourceId}`;
+        return `https://${instance}/w/${sourceId}`;
+    }
+};
@@ -0,0 +1,147 @@
+import { AppSettings, MediaItem, Platform, VideoItem } from '../types';
+import { youtubeProvider } from './youtube';
+import { vimeoProvider } from './vimeo';
+import { dailymotionProvider } from './dailymotion';
+import { archiveProvider } from './archive';
+import { peertubeProvider } from './peertube';
+import { feedProvider } from './feed';
+import { localProvider } from './localFiles';
+
+export type SourceType = MediaItem['type'];
+
+export interface DetectedSource {
+    platform: Platform;
+    sourceId: string;
+    type: SourceType;
+    instance?: string; // Host of the instance, for federated platforms
+}
+
+/**
+ * One page of a feed. `nextCursor` is opaque to the app and only understood by the provider that issued it.
+ */
+export interface VideoPage {
+    videos: VideoItem[];
+    nextCursor?: string; // Missing on the last page, or when the source can't paginate (RSS...)
+    error?: string; // Set by mediaResolver when the fetch failed and cached videos are served instead
+}
+
+/**
+ * Display details of a channel, playlist or video, used to prefill the add form.
+ */
+export interface SourceMetadata {
+    name?: string;
+    avatar?: string; // Channel picture, or the thumbnail of a playlist / video
+    banner?: string;
+    description?: string;
+}
+
+/**
+ * A secret stored (encrypted) in AppSettings that the provider can use once the vault is unlocked.
+ */
+export interface PlatformCredential {
+    field: keyof AppSettings;
+    label: string;
+    required: boolean; // false when a public fallback (RSS, oEmbed...) exists
+}
+
+/**
+ * Everything the app needs to know about a video source.
+ * Register an implementation with platformRegistry.register() to support a new site.
+ */
+export interface PlatformProvider {
+    id: Platform;
+    name: string; // Display name
+
+    /**
+     * Recognizes a parsed URL. Returns null when the URL belongs to another platform.
+     */
+    detect(url: URL, contextType: SourceType): DetectedSource | null;
+
+    /**
+     * Completes a detected source before it is saved (e.g. a handle to a stable ID). May hit the network.
+     * Resolves to null when a closer look shows the URL isn't from this platform after all.
+     */
+    resolveSource?(source: DetectedSource): Promise<DetectedSource | null>;
+
+    /**
+     * Looks up the source's name and artwork while it is being added.
+     */
+    getMetadata?(source: DetectedSource): Promise<SourceMetadata>;
+
+    /**
+     * Fetches the first page of an item, or the page after `cursor`.
+     */
+    getVideos(item: MediaItem, cursor?: string): Promise<VideoPage>;
+    getEmbedUrl(sourceId: string, instance?: string): string | null; // null when there is no embeddable player
+    getWebUrl(sourceId: string, type: SourceType, instance?: string): string;
+
+    /**
+     * For sources whose media URL can't be stored (session object URLs), resolves one at playback time.
+     */
+    resolveMediaUrl?(sourceId: string): Promise<string>;
+
+    credentials: PlatformCredential[];
+    setCredential(field: keyof AppSettings, value: string): void;
+}
+
+// Legacy records without a platform, raw IDs and unrecognized URLs belong to YouTube
+export const DEFAULT_PLATFORM: Platform = 'youtube';
+
+const providers = new Map<string, PlatformProvider>();
+
+export const platformRegistry = {
+
+    register(provider: PlatformProvider) {
+        providers.set(provider.id, provider);
+    },
+
+    has(id: string): boolean {
+        return providers.has(id);
+    },
+
+    /**
+     * Provider for a stored platform id, falling back to the default platform.
+     */
+    get(id?: Platform): PlatformProvider {
+        return providers.get(id || DEFAULT_PLATFORM) || providers.get(DEFAULT_PLATFORM)!;
+    },
+
+    list(): PlatformProvider[] {
+        return Array.from(providers.values());
+    },
+
+    getName(id?: Platform): string {
+        return providers.get(id || DEFAULT_PLATFORM)?.name || id || 'Unknown';
+    },
+
+    /**
+     * Asks each provider, in registration order, whether it recognizes the URL.
+     * Providers listed in `skip` already declined it.
+     */
+    detect(url: URL, contextType: SourceType, skip: Platform[] = []): DetectedSource | null {
+        for (const provider of providers.values()) {
+            if (skip.includes(provider.id)) continue;
+            const result = provider.detect(url, contextType);
+            if (result) return result;
+        }
+        return null;
+    },
+
+    /**
+     * Forgets every decrypted credential (logout / lock).
+     */
+    clearCredentials() {
+        providers.forEach(p => p.credentials.forEach(c => p.setCredential(c.field, '')));
+    }
+};
+
+// Built-in providers
+platformRegistry.register(youtubeProvider);
+platformRegistry.register(vimeoProvider);
+platformRegistry.register(dailymotionProvider);
+platformRegistry.register(archiveProvider);
+
+// Match URL layouts on any host, keep them after the single-site providers
+platformRegistry.register(peertubeProvider);
+platformRegistry.register(feedProvider);
+platformRegistry.register(localProvider);
@@ -0,0 +1,77 @@
+export type StreamKind = 'hls' | 'dash' | 'file';
+
+const HLS_PATTERN = /\.m3u8(\?|#|$)/i;
+const DASH_PATTERN = /\.mpd(\?|#|$)/i;
+const FILE_PATTERN = /\.(mp4|m4v|webm|ogv|ogg|mov|mp3|m4a|opus)(\?|#|$)/i;
+
+/**
+ * Stops playback and releases the engine attached to a <video> element.
+ */
+export type StreamCleanup = () => void;
+
+const hasMediaSource = () => typeof window !== 'undefined' && ('MediaSource' in window || 'ManagedMediaSource' in window);
+
+export const streamingService = {
+
+    kindOf(url: string): StreamKind {
+        if (HLS_PATTERN.test(url)) return 'hls';
+        if (DASH_PATTERN.test(url)) return 'dash';
+        return 'file';
+    },
+
+    /**
+     * True for URLs a <video> element can play (directly or through Media Source Extensions),
+     * as opposed to web pages that only have an embeddable player.
+     */
+    isDirectMedia(url?: string): boolean {
+        if (!url) return false;
+        // Object URLs carry no extension but always point at media
+        if (url.startsWith('blob:')) return true;
+        return HLS_PATTERN.test(url) || DASH_PATTERN.test(url) || FILE_PATTERN.test(url);
+    },
+
+    /**
+     * Loads a media URL into a <video> element.
+     * Progressive files play natively, HLS and DASH go through Media Source Extensions.
+     * The streaming engines are only downloaded the first time an adaptive stream is played.
+     */
+    async attach(video: HTMLVideoElement, url: string, onError: (message: string) => void): Promise<StreamCleanup> {
+        const kind = this.kindOf(url);
+
+        // 1. Progressive download, or HLS on browsers that play it natively (Safari, iOS)
+        if (kind === 'file' || (kind === 'hls' && video.canPlayType('application/vnd.apple.mpegurl'))) {
+            video.src = url;
+            return () => {
+                video.removeAttribute('src');
+                video.load();
+            };
+        }
+
+        if (!hasMediaSource()) {
+            throw new Error('This browser cannot play adaptive streams (Media Source Extensions unavailable).');
+        }
+
+        // 2. HLS via hls.js
+        if (kind === 'hls') {
+            const { default: Hls } = await import('hls.js');
+            if (!Hls.isSupported()) throw new Error('HLS playback is not supported in this browser.');
+
+            const hls = new Hls();
+            hls.on(Hls.Events.ERROR, (_event, data) => {
+                if (data.fatal) onError(`Stream error: ${data.details}`);
+            });
+            hls.loadSource(url);
+            hls.attachMedia(video);
+            return () => hls.destroy();
+        }
+
+        // 3. DASH via dash.js
+        const dashjs = await import('dashjs');
+        const player = dashjs.MediaPlayer().create();
+        player.on('error', (e: any) => {
+            onError(`Stream error: ${e?.error?.message || 'DASH playback failed'}`);
+        });
+        player.initialize(video, url, true);
+        return () => player.reset();
+    }
+};
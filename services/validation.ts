@@ -0,0 +1,231 @@
+import { BackupData, BackupFile } from './backup';
+import { DB_VERSION } from './migrations';
+import { platformRegistry } from './platforms';
+
+export interface ValidationIssue {
+    store: string;
+    index: number; // Position in the backup file, -1 for store level problems
+    label: string;
+    errors: string[];
+    record?: unknown;
+}
+
+export interface ValidationReport {
+    data: BackupData; // Only the records that passed
+    issues: ValidationIssue[]; // Quarantined records, never written
+}
+
+type Validator = (record: any, errors: string[]) => void;
+
+const MEDIA_TYPE_BY_STORE: Record<string, string> = {
+    channels: 'channel',
+    playlists: 'playlist',
+    favorites: 'video',
+    watchLater: 'video'
+};
+
+// --- Field checks (push a message when the field is invalid) ---
+
+const requireString = (record: any, field: string, errors: string[]) => {
+    if (typeof record[field] !== 'string' || record[field].trim() === '') {
+        errors.push(`"${field}" must be a non-empty string`);
+    }
+};
+
+const optionalString = (record: any, field: string, errors: string[]) => {
+    if (record[field] !== undefined && typeof record[field] !== 'string') {
+        errors.push(`"${field}" must be a string`);
+    }
+};
+
+const requireTimestamp = (record: any, field: string, errors: string[]) => {
+    if (typeof record[field] !== 'number' || !Number.isFinite(record[field])) {
+        errors.push(`"${field}" must be a timestamp`);
+    }
+};
+
+const optionalNumber = (record: any, field: string, errors: string[]) => {
+    if (record[field] !== undefined && (typeof record[field] !== 'number' || !Number.isFinite(record[field]))) {
+        errors.push(`"${field}" must be a number`);
+    }
+};
+
+const optionalStringArray = (record: any, field: string, errors: string[]) => {
+    const value = record[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(v => typeof v !== 'string'))) {
+        errors.push(`"${field}" must be a list of strings`);
+    }
+};
+
+const optionalEncrypted = (record: any, field: string, errors: string[]) => {
+    const value = record[field];
+    if (value === undefined) return;
+    if (!value || typeof value.iv !== 'string' || typeof value.ciphertext !== 'string') {
+        errors.push(`"${field}" must be encrypted data ({ iv, ciphertext })`);
+    }
+};
+
+// --- Store shapes ---
+
+const validateMediaItem = (store: string): Validator => (record, errors) => {
+    optionalNumber(record, 'id', errors);
+    requireString(record, 'name', errors);
+    requireString(record, 'sourceId', errors);
+    optionalString(record, 'url', errors);
+    optionalString(record, 'instance', errors);
+    optionalString(record, 'mediaUrl', errors);
+    ['avatar', 'banner', 'description'].forEach(f => optionalString(record, f, errors));
+    requireTimestamp(record, 'createdAt', errors);
+    optionalStringArray(record, 'tags', errors);
+    optionalString(record, 'uploadsPlaylistId', errors);
+    optionalNumber(record, 'lastFetched', errors);
+    optionalString(record, 'nextCursor', errors);
+
+    const expectedType = MEDIA_TYPE_BY_STORE[store];
+    if (record.type !== expectedType) {
+        errors.push(`"type" must be "${expectedType}" in ${store}`);
+    }
+    if (record.platform !== undefined && !platformRegistry.has(record.platform)) {
+        errors.push(`unknown platform "${record.platform}"`);
+    }
+    if (record.cachedContent !== undefined && !Array.isArray(record.cachedContent)) {
+        errors.push(`"cachedContent" must be a list of videos`);
+    }
+
+    const filters = record.filters;
+    if (filters !== undefined) {
+        if (!filters || typeof filters !== 'object') {
+            errors.push(`"filters" must be an object`);
+        } else {
+            ['hideShorts', 'hideLive', 'hideUpcoming'].forEach(f => {
+                if (filters[f] !== undefined && typeof filters[f] !== 'boolean') errors.push(`"filters.${f}" must be true or false`);
+            });
+            ['minDuration', 'maxDuration'].forEach(f => optionalNumber(filters, f, errors));
+        }
+    }
+};
+
+const validateLesson: Validator = (record, errors) => {
+    optionalNumber(record, 'id', errors);
+    requireString(record, 'title', errors);
+    requireString(record, 'videoId', errors);
+    ['category', 'excerpt', 'videoUrl', 'description', 'platform'].forEach(f => optionalString(record, f, errors));
+    if (typeof record.content !== 'string') errors.push(`"content" must be a string`);
+    optionalStringArray(record, 'tags', errors);
+    requireTimestamp(record, 'createdAt', errors);
+};
+
+const validateTag: Validator = (record, errors) => {
+    optionalNumber(record, 'id', errors);
+    requireString(record, 'name', errors);
+};
+
+const validateSettings: Validator = (record, errors) => {
+    if (record.id !== undefined && record.id !== 'config') {
+        errors.push(`"id" must be "config"`);
+    }
+    ['apiKey', 'vimeoToken', 'dailymotionToken', 'geminiApiKey', 'nomadProxyKey'].forEach(f => optionalEncrypted(record, f, errors));
+    ['nomadUrl', 'customProxyUrl', 'proxy1Url', 'proxy2Url'].forEach(f => optionalString(record, f, errors));
+    optionalNumber(record, 'feedCacheDuration', errors);
+    optionalNumber(record, 'autoLockMinutes', errors);
+    optionalNumber(record, 'wipeAfterFailures', errors);
+    ['encryptLibrary', 'lockOnHide'].forEach(f => {
+        if (record[f] !== undefined && typeof record[f] !== 'boolean') errors.push(`"${f}" must be true or false`);
+    });
+
+    const quota = record.youtubeQuota;
+    if (quota !== undefined && (!quota || typeof quota.day !== 'string' || !quota.usage || typeof quota.usage !== 'object')) {
+        errors.push(`"youtubeQuota" must have a day and per-key usage`);
+    }
+
+    const cache = record.dashboardCache;
+    const sealedCache = !!cache && typeof cache.sealed?.ciphertext === 'string';
+    if (cache !== undefined && !sealedCache && (!cache || typeof cache.timestamp !== 'number' || !Array.isArray(cache.videos))) {
+        errors.push(`"dashboardCache" must have a timestamp and a list of videos, or be sealed`);
+    }
+};
+
+const validateUserAuth: Validator = (record, errors) => {
+    requireString(record, 'username', errors);
+    requireString(record, 'salt', errors);
+    requireString(record, 'verifier', errors);
+    optionalNumber(record, 'failedAttempts', errors);
+    optionalNumber(record, 'lockedUntil', errors);
+
+    optionalEncrypted(record, 'wrappedDataKey', errors);
+    const recovery = record.recovery;
+    if (recovery !== undefined) {
+        if (!recovery || typeof recovery.salt !== 'string') errors.push(`"recovery" must have a salt`);
+        else optionalEncrypted(recovery, 'wrappedKey', errors);
+    }
+
+    const kdf = record.kdf;
+    if (kdf !== undefined && (!kdf || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || !Number.isInteger(kdf.iterations) || kdf.iterations <= 0)) {
+        errors.push(`"kdf" must be PBKDF2/SHA-256 parameters with a positive iteration count`);
+    }
+};
+
+const VALIDATORS: Record<string, Validator> = {
+    auth: validateUserAuth,
+    channels: validateMediaItem('channels'),
+    playlists: validateMediaItem('playlists'),
+    favorites: validateMediaItem('favorites'),
+    watchLater: validateMediaItem('watchLater'),
+    lessons: validateLesson,
+    tags: validateTag,
+    settings: validateSettings
+};
+
+const labelOf = (record: any, index: number): string => {
+    if (record && typeof record === 'object') {
+        return record.name || record.title || record.username || record.sourceId || `Record #${index + 1}`;
+    }
+    return `Record #${index + 1}`;
+};
+
+export const validationService = {
+
+    /**
+     * Checks every record of a backup against the shape of its store.
+     * Valid records are returned for import, invalid ones are quarantined with per-record errors.
+     * Throws when the file was written by a newer schema than this app understands.
+     */
+    validateBackup(file: BackupFile): ValidationReport {
+        if (file.dbVersion !== undefined && (typeof file.dbVersion !== 'number' || file.dbVersion > DB_VERSION)) {
+            throw new Error(`This backup was created by a newer version of the app (schema v${file.dbVersion}, this app supports v${DB_VERSION}). Please update before importing.`);
+        }
+
+        const data: BackupData = {};
+        const issues: ValidationIssue[] = [];
+
+        Object.entries(file.stores).forEach(([store, records]) => {
+            const validate = VALIDATORS[store];
+            if (!validate) {
+                issues.push({ store, index: -1, label: store, errors: ['Unknown store, ignored'] });
+                return;
+            }
+            if (!Array.isArray(records)) {
+                issues.push({ store, index: -1, label: store, errors: ['Store content must be a list of records'] });
+                return;
+            }
+
+            data[store] = [];
+            records.forEach((record, index) => {
+                const errors: string[] = [];
+                if (!record || typeof record !== 'object' || Array.isArray(record)) {
+                    errors.push('Record must be an object');
+                } else {
+                    validate(record, errors);
+                }
+
+                if (errors.length > 0) {
+                    issues.push({ store, index, label: labelOf(record, index), errors, record });
+                } else {
+                    data[store].push(record);
+                }
+            });
+        });
+
+        return { data, issues };
+    }
+};
@@ -0,0 +1,325 @@
+import { AppSettings, AuditEntry, EncryptedData, RecoveryEnvelope, UserAuth } from '../types';
+import { cryptoService, DEFAULT_KDF } from './crypto';
+import { dbService } from './db';
+import { vaultRegistry } from './vaultRegistry';
+import { localFileService } from './localFiles';
+
+// Every AppSettings field that holds a secret encrypted with the vault key
+export const ENCRYPTED_SETTINGS_FIELDS = ['apiKey', 'vimeoToken', 'dailymotionToken', 'geminiApiKey', 'nomadProxyKey'] as const;
+
+// Brute-force backoff: a few free attempts, then 2s, 4s, 8s... capped at 15 minutes
+const FREE_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+const backoffDelay = (failedAttempts: number): number => {
+    if (failedAttempts < FREE_ATTEMPTS) return 0;
+    return Math.min(BACKOFF_BASE_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), BACKOFF_MAX_MS);
+};
+
+const formatWait = (ms: number): string => {
+    const seconds = Math.ceil(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`;
+};
+
+const audit = (event: AuditEntry['event'], username: string, detail?: string) => {
+    return dbService.addAuditEntry({ timestamp: Date.now(), event, username, detail })
+        .catch(e => console.warn('Failed to write audit entry', e));
+};
+
+// Wraps the data key with a key derived from the password (fresh salt, current KDF)
+const wrapWithPassword = async (dataKey: CryptoKey, password: string) => {
+    const salt = cryptoService.generateSalt();
+    const { key: kek, verifier } = await cryptoService.deriveVaultKeys(password, salt, DEFAULT_KDF);
+    const wrappedDataKey = await cryptoService.wrapDataKey(dataKey, kek);
+    return { kek, fields: { salt, verifier, kdf: DEFAULT_KDF, wrappedDataKey } };
+};
+
+// Wraps the data key with a brand new recovery key
+const wrapWithRecoveryKey = async (dataKey: CryptoKey) => {
+    const recoveryKey = cryptoService.generateRecoveryKey();
+    const salt = cryptoService.generateSalt();
+    const kek = await cryptoService.deriveRecoveryKey(recoveryKey, salt);
+    const recovery: RecoveryEnvelope = { salt, wrappedKey: await cryptoService.wrapDataKey(dataKey, kek), createdAt: Date.now() };
+    return { recoveryKey, recovery };
+};
+
+// Tail of the pending login attempts, see vaultService.login
+let loginQueue: Promise<unknown> = Promise.resolve();
+
+export const vaultService = {
+
+    /**
+     * Opens the database of a registered vault.
+     */
+    async openVault(username: string): Promise<void> {
+        const entry = await vaultRegistry.get(username);
+        if (!entry) throw new Error('User not found');
+        await dbService.init(entry.dbName);
+    },
+
+    /**
+     * Creates a vault in its own database, around a random data key wrapped once with the password
+     * and once with a recovery key. The recovery key is returned to be shown to the user, it is never stored.
+     */
+    async createVault(username: string, password: string): Promise<{ key: CryptoKey; recoveryKey: string }> {
+        if (await vaultRegistry.get(username)) throw new Error('A vault with this username already exists');
+
+        const dataKey = await cryptoService.generateDataKey();
+        const { kek, fields } = await wrapWithPassword(dataKey, password);
+        const { recoveryKey, recovery } = await wrapWithRecoveryKey(dataKey);
+
+        const dbName = await vaultRegistry.allocateDbName();
+        await dbService.init(dbName);
+        await dbService.register({ username, ...fields, recovery });
+        await vaultRegistry.add({ username, dbName, createdAt: Date.now() });
+
+        // Sessions only ever hold a non-extractable copy
+        const key = await cryptoService.unwrapDataKey(fields.wrappedDataKey, kek);
+        return { key, recoveryKey };
+    },
+
+    /**
+     * Returns the key that encrypts vault data if the password matches the stored verifier, null otherwise.
+     * Older layouts encrypt with the password key itself: legacy vaults (no KDF params) and vaults without a data key.
+     * `extractable` is only for re-wrapping the data key.
+     */
+    async unlock(user: UserAuth, password: string, extractable = false): Promise<CryptoKey | null> {
+        if (!user.kdf) {
+            const key = await cryptoService.deriveKey(password, user.salt);
+            const verifier = await cryptoService.createVerifier(key);
+            return verifier === user.verifier ? key : null;
+        }
+
+        const { key, verifier } = await cryptoService.deriveVaultKeys(password, user.salt, user.kdf);
+        if (verifier !== user.verifier) return null;
+        return user.wrappedDataKey ? cryptoService.unwrapDataKey(user.wrappedDataKey, key, extractable) : key;
+    },
+
+    /**
+     * True when the vault has no separate data key yet or uses weaker KDF parameters than today's default.
+     */
+    needsUpgrade(user: UserAuth): boolean {
+        if (!user.wrappedDataKey || !user.kdf) return true;
+        return user.kdf.name !== DEFAULT_KDF.name || user.kdf.hash !== DEFAULT_KDF.hash || user.kdf.iterations < DEFAULT_KDF.iterations;
+    },
+
+    /**
+     * Brings a vault to the current layout with the password just verified.
+     * Returns the session key to use from now on.
+     */
+    async upgrade(user: UserAuth, currentKey: CryptoKey, password: string): Promise<CryptoKey> {
+        if (!user.wrappedDataKey) {
+            return this.adoptDataKey(user, currentKey, password);
+        }
+        // Only the KDF changed: re-wrap the same data key, no data is touched
+        const dataKey = await this.unlock(user, password, true);
+        if (!dataKey) throw new Error('Current password is incorrect');
+        return this.setPassword(user, dataKey, password);
+    },
+
+    /**
+     * Moves a vault that encrypts with its password key onto a random data key: every secret
+     * (and the sealed library when library encryption is on) is re-encrypted and written in one
+     * transaction, so a failure leaves the vault untouched.
+     */
+    async adoptDataKey(user: UserAuth, oldKey: CryptoKey, password: string): Promise<CryptoKey> {
+        const dataKey = await cryptoService.generateDataKey();
+        const { kek, fields } = await wrapWithPassword(dataKey, password);
+
+        const settings = await dbService.getSettings();
+        let reencrypted: AppSettings | undefined;
+        try {
+            reencrypted = settings ? await this.reencryptSettings(settings, oldKey, dataKey) : undefined;
+        } catch (e) {
+            throw new Error('Could not decrypt stored credentials, the vault key was not changed.');
+        }
+
+        // Sealed library records are read with the old key before being re-sealed
+        await dbService.unlockLibrary(oldKey);
+        await dbService.saveVaultCredentials({ ...user, ...fields }, reencrypted, dataKey);
+
+        const key = await cryptoService.unwrapDataKey(fields.wrappedDataKey, kek);
+        await dbService.unlockLibrary(key);
+        return key;
+    },
+
+    /**
+     * Re-wraps the (extractable) data key under a new password and clears any throttling.
+     * Data encrypted with the data key stays as it is. Returns a non-extractable session copy.
+     */
+    async setPassword(user: UserAuth, dataKey: CryptoKey, password: string): Promise<CryptoKey> {
+        const { kek, fields } = await wrapWithPassword(dataKey, password);
+        await dbService.update('auth', { ...user, ...fields, failedAttempts: 0, lockedUntil: undefined });
+        return cryptoService.unwrapDataKey(fields.wrappedDataKey, kek);
+    },
+
+    /**
+     * Login with throttling: refuses attempts inside the backoff window, records every attempt
+     * in the audit log and wipes the vault when the configured failure limit is reached.
+     * Throws with a user facing message when the vault stays locked.
+     * Attempts run one at a time, so each one reads the counter written by the previous one.
+     */
+    login(username: string, password: string): Promise<CryptoKey> {
+        const attempt = loginQueue.then(() => this.attemptLogin(username, password));
+        loginQueue = attempt.catch(() => { /* Failures are reported to the caller */ });
+        return attempt;
+    },
+
+    /**
+     * A single login attempt, only called through login.
+     */
+    async attemptLogin(username: string, password: string): Promise<CryptoKey> {
+        await this.openVault(username);
+        const user = await dbService.getUser(username);
+        if (!user) {
+            await audit('unlock_failure', username, 'Unknown user');
+            throw new Error('User not found');
+        }
+
+        // 1. Backoff window (checked before the expensive key derivation)
+        const now = Date.now();
+        if (user.lockedUntil && user.lockedUntil > now) {
+            throw new Error(`Too many failed attempts. Try again in ${formatWait(user.lockedUntil - now)}.`);
+        }
+
+        // 2. Verify
+        const key = await this.unlock(user, password);
+        if (key) {
+            const current = { ...user, failedAttempts: 0, lockedUntil: undefined };
+            if (user.failedAttempts || user.lockedUntil) {
+                await dbService.update('auth', current);
+            }
+            await audit('unlock_success', username);
+
+            // Transparent upgrade of legacy layouts or outdated key derivation, the password is only known here
+            if (this.needsUpgrade(user)) {
+                try {
+                    return await this.upgrade(current, key, password);
+                } catch (e) {
+                    console.warn('Vault key upgrade failed, keeping the current key', e);
+                }
+            }
+            return key;
+        }
+
+        // 3. Failure: count it, maybe wipe, otherwise extend the backoff
+        const failedAttempts = (user.failedAttempts || 0) + 1;
+        await audit('unlock_failure', username, `Wrong password (${failedAttempts} in a row)`);
+
+        const settings = await dbService.getSettings();
+        if (settings?.wipeAfterFailures && failedAttempts >= settings.wipeAfterFailures) {
+            await this.removeVault(username);
+            throw new Error(`Vault erased after ${failedAttempts} failed attempts.`);
+        }
+
+        const delay = backoffDelay(failedAttempts);
+        await dbService.update('auth', { ...user, failedAttempts, lockedUntil: delay ? now + delay : undefined });
+        throw new Error(delay ? `Invalid credentials. Try again in ${formatWait(delay)}.` : 'Invalid credentials');
+    },
+
+    /**
+     * Decrypts every secret in the settings with `oldKey` and encrypts it again with `newKey`.
+     * Throws on the first field that can't be decrypted so nothing is half re-encrypted.
+     */
+    async reencryptSettings(settings: AppSettings, oldKey: CryptoKey, newKey: CryptoKey): Promise<AppSettings> {
+        const updated: AppSettings = { ...settings };
+
+        for (const field of ENCRYPTED_SETTINGS_FIELDS) {
+            const value = settings[field] as EncryptedData | undefined;
+            if (!value) continue;
+
+            const plain = await cryptoService.decryptData(value, oldKey);
+            updated[field] = await cryptoService.encryptData(plain, newKey);
+        }
+        return updated;
+    },
+
+    /**
+     * Verifies the current password and wraps the data key under the new one.
+     * Returns the new session key.
+     */
+    async changePassword(username: string, currentPassword: string, newPassword: string): Promise<CryptoKey> {
+        const user = await dbService.getUser(username);
+        if (!user) throw new Error('User not found');
+
+        if (!user.wrappedDataKey) {
+            const oldKey = await this.unlock(user, currentPassword);
+            if (!oldKey) throw new Error('Current password is incorrect');
+            return this.adoptDataKey(user, oldKey, newPassword);
+        }
+
+        const dataKey = await this.unlock(user, currentPassword, true);
+        if (!dataKey) throw new Error('Current password is incorrect');
+        return this.setPassword(user, dataKey, newPassword);
+    },
+
+    /**
+     * Unlocks the vault with its recovery key and sets a new password.
+     * Returns the session key.
+     */
+    async recover(username: string, recoveryKey: string, newPassword: string): Promise<CryptoKey> {
+        await this.openVault(username);
+        const user = await dbService.getUser(username);
+        if (!user) throw new Error('User not found');
+        if (!user.recovery) throw new Error('No recovery key was set up for this vault.');
+
+        const kek = await cryptoService.deriveRecoveryKey(recoveryKey, user.recovery.salt);
+        let dataKey: CryptoKey;
+        try {
+            dataKey = await cryptoService.unwrapDataKey(user.recovery.wrappedKey, kek, true);
+        } catch (e) {
+            await audit('unlock_failure', username, 'Wrong recovery key');
+            throw new Error('Invalid recovery key');
+        }
+
+        const key = await this.setPassword(user, dataKey, newPassword);
+        await audit('unlock_success', username, 'Recovery key, password reset');
+        return key;
+    },
+
+    /**
+     * Replaces the recovery envelope with one for a fresh recovery key, invalidating the previous key.
+     * Needs the password because the session only holds a non-extractable copy of the data key.
+     */
+    async createRecoveryKey(username: string, password: string): Promise<string> {
+        const user = await dbService.getUser(username);
+        if (!user) throw new Error('User not found');
+        if (!user.wrappedDataKey) throw new Error('This vault has not been upgraded yet, lock and unlock it once first.');
+
+        const dataKey = await this.unlock(user, password, true);
+        if (!dataKey) throw new Error('Password is incorrect');
+
+        const { recoveryKey, recovery } = await wrapWithRecoveryKey(dataKey);
+        await dbService.update('auth', { ...user, recovery });
+        return recoveryKey;
+    },
+
+    /**
+     * Permanently deletes a vault after checking its password.
+     */
+    async deleteVault(username: string, password: string): Promise<void> {
+        await this.openVault(username);
+        const user = await dbService.getUser(username);
+        if (!user || !(await this.unlock(user, password))) throw new Error('Password is incorrect');
+
+        await this.removeVault(username);
+    },
+
+    // Drops the vault database and its registry entry
+    async removeVault(username: string): Promise<void> {
+        const entry = await vaultRegistry.get(username);
+        if (!entry) throw new Error('User not found');
+        await dbService.init(entry.dbName);
+
+        // Users created before multi-vault support may share the original database
+        const shared = (await vaultRegistry.list()).some(e => e.username !== username && e.dbName === entry.dbName);
+        if (shared) {
+            await dbService.delete('auth', username);
+        } else {
+            await dbService.destroy();
+            await localFileService.removeVaultFiles(entry.dbName);
+        }
+        await vaultRegistry.remove(username);
+    }
+};
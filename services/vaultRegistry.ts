@@ -0,0 +1,75 @@
+import { UserAuth, VaultEntry } from '../types';
+import { DB_NAME, dbService } from './db';
+
+// Small device-level database listing the vaults, each vault lives in its own database
+const REGISTRY_DB_NAME = 'NomadMediaVaults';
+const REGISTRY_VERSION = 1;
+
+let registryDb: IDBDatabase | null = null;
+
+const request = <T>(run: (store: IDBObjectStore) => IDBRequest, mode: IDBTransactionMode = 'readonly'): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        if (!registryDb) return reject('Vault registry not initialized');
+        const tx = registryDb.transaction(['vaults'], mode);
+        const req = run(tx.objectStore('vaults'));
+        req.onsuccess = () => resolve(req.result as T);
+        req.onerror = () => reject(req.error);
+    });
+};
+
+export const vaultRegistry = {
+
+    /**
+     * Opens the registry. On first run, vaults from the single-database layout are registered
+     * so they keep their data where it is.
+     */
+    async init(): Promise<void> {
+        if (registryDb) return;
+
+        registryDb = await new Promise<IDBDatabase>((resolve, reject) => {
+            const req = indexedDB.open(REGISTRY_DB_NAME, REGISTRY_VERSION);
+            req.onerror = () => reject(req.error);
+            req.onupgradeneeded = () => {
+                if (!req.result.objectStoreNames.contains('vaults')) {
+                    req.result.createObjectStore('vaults', { keyPath: 'username' });
+                }
+            };
+            req.onsuccess = () => resolve(req.result);
+        });
+
+        const entries = await this.list();
+        if (entries.length > 0) return;
+
+        await dbService.init(DB_NAME);
+        const legacyUsers = await dbService.getAll<UserAuth>('auth');
+        for (const user of legacyUsers) {
+            await this.add({ username: user.username, dbName: DB_NAME, createdAt: Date.now() });
+        }
+    },
+
+    async list(): Promise<VaultEntry[]> {
+        const entries = await request<VaultEntry[]>(store => store.getAll());
+        return entries.sort((a, b) => a.username.localeCompare(b.username));
+    },
+
+    async get(username: string): Promise<VaultEntry | undefined> {
+        return request<VaultEntry | undefined>(store => store.get(username));
+    },
+
+    async add(entry: VaultEntry): Promise<void> {
+        await request(store => store.add(entry), 'readwrite');
+    },
+
+    async remove(username: string): Promise<void> {
+        await request(store => store.delete(username), 'readwrite');
+    },
+
+    /**
+     * Picks the database for a new vault. The first vault on a device keeps the historic name.
+     */
+    async allocateDbName(): Promise<string> {
+        const entries = await this.list();
+        if (!entries.some(e => e.dbName === DB_NAME)) return DB_NAME;
+        return `${DB_NAME}-${window.crypto.randomUUID()}`;
+    }
+};
@@ -1,37 +1,68 @@
 
 import { MediaItem, VideoItem } from '../types';
 import { proxyService } from './proxy';
+import { PlatformProvider, SourceMetadata, SourceType, VideoPage } from './platforms';
 
 // Vimeo's oEmbed endpoint is reliable for public data without auth tokens (Single Video)
 const BASE_OEMBED_URL = 'https://vimeo.com/api/oembed.json';
 const BASE_API_URL = 'https://api.vimeo.com';
+const BASE_SIMPLE_API_URL = 'https://vimeo.com/api/v2'; // Legacy public API, still serves user and channel info
 
 let MEMORY_TOKEN: string | null = null;
 
+// Private links add a hash after the video ID: vimeo.com/<id>/<hash>, player.vimeo.com/video/<id>?h=<hash>
+const UNLISTED_HASH = /^[0-9a-f]{6,}$/i;
+
+/**
+ * Video sourceIds are "<id>" or "<id>/<hash>" for unlisted videos.
+ */
+const videoRef = (sourceId: string) => {
+    const [id, hash] = sourceId.split('/');
+    return { id, hash: hash as string | undefined };
+};
+
+/**
+ * Playlist sourceIds are showcases (albums): "<user>/albums/<id>", or "showcase/<id>" when the owner is unknown.
+ */
+const albumRef = (sourceId: string) => {
+    const parts = sourceId.split('/');
+    const albumId = parts[parts.length - 1];
+    return { albumId, user: parts[1] === 'albums' ? parts[0] : undefined };
+};
+
+// The API addresses accounts without a vanity name by their numeric ID ("user12345" in URLs)
+const apiUserId = (user: string) => user.replace(/^user(\d+)$/, '$1');
+
 export const vimeoService = {
     
     setToken(token: string) {
         MEMORY_TOKEN = token;
     },
 
-    async getVideos(item: MediaItem): Promise<VideoItem[]> {
+    async getVideos(item: MediaItem, cursor?: string): Promise<VideoPage> {
         
         // 1. Authenticated API Strategy (If Token Exists)
         if (MEMORY_TOKEN) {
             try {
-                return await this.fetchViaApi(item);
+                return await this.fetchViaApi(item, cursor);
             } catch (e: any) {
+                if (cursor) throw e; // The RSS fallback has no further pages
                 console.warn("Vimeo API failed, falling back to Proxy.", e);
             }
         }
 
         // 2. Fallback / Public Strategy
-        return this.fetchFallback(item);
+        return { videos: await this.fetchFallback(item) };
     },
 
-    async fetchViaApi(item: MediaItem): Promise<VideoItem[]> {
+    /**
+     * `cursor` is the API's `paging.next` path of the previous page.
+     */
+    async fetchViaApi(item: MediaItem, cursor?: string): Promise<VideoPage> {
         let endpoint = '';
-        if (item.type === 'channel') {
+        if (cursor) {
+            endpoint = cursor;
+        } else if (item.type === 'channel') {
             // Check if it's a real 'channel' or a user path, reusing logic from mediaResolver is hard here, so we try guessing
             if (item.sourceId.startsWith('channels/')) {
                 endpoint = `/${item.sourceId}/videos`;
@@ -39,10 +70,13 @@ export const vimeoService = {
                 endpoint = `/users/${item.sourceId}/videos`;
             }
         } else if (item.type === 'video') {
-            endpoint = `/videos/${item.sourceId}`;
+            // Unlisted videos are only readable with their hash: /videos/<id>:<hash>
+            const { id, hash } = videoRef(item.sourceId);
+            endpoint = `/videos/${id}${hash ? `:${hash}` : ''}`;
         } else {
-            // Playlists on Vimeo usually behave like albums/showcases
-            endpoint = `/me/albums/${item.sourceId}/videos`; 
+            // Playlists are showcases. Without a known owner, only the token owner's own showcases can be listed
+            const { albumId, user } = albumRef(item.sourceId);
+            endpoint = user ? `/users/${apiUserId(user)}/albums/${albumId}/videos` : `/me/albums/${albumId}/videos`;
         }
 
         const res = await fetch(`${BASE_API_URL}${endpoint}`, {
@@ -55,21 +89,89 @@ export const vimeoService = {
         const data = await res.json();
 
         if (item.type === 'video') {
-             return [this.mapApiToItem(data)];
+             return { videos: [this.mapApiToItem(data)] };
+        }
+        return { videos: data.data.map((d: any) => this.mapApiToItem(d)), nextCursor: data.paging?.next || undefined };
+    },
+
+    /**
+     * Name, artwork and description for the add form.
+     * Videos and showcases through oEmbed, users and channels through the API or the public simple API.
+     */
+    async getMetadata(sourceId: string, type: SourceType): Promise<SourceMetadata> {
+        if (type !== 'channel') {
+            const pageUrl = type === 'playlist' ? `https://vimeo.com/showcase/${albumRef(sourceId).albumId}` : `https://vimeo.com/${sourceId}`;
+            const res = await fetch(`${BASE_OEMBED_URL}?url=${encodeURIComponent(pageUrl)}`);
+            if (!res.ok) throw new Error('Vimeo oEmbed unavailable');
+            const data = await res.json();
+            return { name: data.title, avatar: data.thumbnail_url, description: data.description || undefined };
+        }
+
+        const isChannel = sourceId.startsWith('channels/');
+        if (MEMORY_TOKEN) {
+            try {
+                const path = isChannel ? `/${sourceId}` : `/users/${apiUserId(sourceId)}`;
+                const res = await fetch(`${BASE_API_URL}${path}`, { headers: { 'Authorization': `Bearer ${MEMORY_TOKEN}` } });
+                if (!res.ok) throw new Error('Vimeo API Error');
+                const data = await res.json();
+                const pictures = data.pictures?.sizes || [];
+                return {
+                    name: data.name,
+                    avatar: pictures[pictures.length - 1]?.link,
+                    banner: data.header?.sizes?.[data.header.sizes.length - 1]?.link,
+                    description: data.bio || data.description || undefined
+                };
+            } catch (e: any) {
+                console.warn('Vimeo metadata lookup failed, falling back to the public API.', e.message);
+            }
         }
-        return data.data.map((d: any) => this.mapApiToItem(d));
+
+        const path = isChannel ? `channel/${sourceId.slice('channels/'.length)}` : sourceId;
+        const res = await fetch(`${BASE_SIMPLE_API_URL}/${path}/info.json`);
+        if (!res.ok) throw new Error('Vimeo profile unavailable');
+        const data = await res.json();
+        return {
+            name: data.display_name || data.name,
+            avatar: data.portrait_huge || data.logo || data.thumbnail,
+            description: (data.bio || data.description || '').replace(/<[^>]*>/g, '') || undefined
+        };
+    },
+
+    /**
+     * "showcase/<id>" -> "<user>/albums/<id>"
+     */
+    async resolveShowcaseOwner(sourceId: string): Promise<string> {
+        const { albumId } = albumRef(sourceId);
+        const res = await fetch(`${BASE_OEMBED_URL}?url=${encodeURIComponent(`https://vimeo.com/showcase/${albumId}`)}`);
+        if (!res.ok) throw new Error('Vimeo showcase not found');
+
+        const data = await res.json();
+        const user = (data.author_url || '').split('/').filter((p: string) => p).pop();
+        if (!user || user.includes('.')) throw new Error('Vimeo showcase owner unknown');
+        return `${user}/albums/${albumId}`;
     },
 
     mapApiToItem(data: any): VideoItem {
+        // Showcases can hold unlisted videos, their hash is needed to embed them
+        const hash = data.link?.match(/vimeo\.com\/\d+\/([0-9a-f]+)/i)?.[1] ||
+                     data.player_embed_url?.match(/[?&]h=([0-9a-f]+)/i)?.[1];
+        const id = data.uri.split('/').pop().split(':')[0];
+
         return {
-            id: data.uri.split('/').pop(),
+            id: hash ? `${id}/${hash}` : id,
             title: data.name,
             description: data.description,
             thumbnail: data.pictures?.sizes?.[2]?.link || '',
             author: data.user?.name,
             pubDate: data.created_time,
             link: data.link,
-            platform: 'vimeo'
+            platform: 'vimeo',
+            duration: data.duration || undefined,
+            views: data.stats?.plays != null ? String(data.stats.plays) : undefined,
+            // Live events: "streaming" while on air, "pending"/"ready" before they start, "done" once archived
+            liveStatus: data.live?.status === 'streaming' ? 'live' : ['pending', 'ready'].includes(data.live?.status) ? 'upcoming' : undefined,
+            scheduledStart: data.live?.scheduled_start_time || undefined,
+            wasLive: data.live?.status === 'done' || undefined
         };
     },
 
@@ -91,8 +193,9 @@ export const vimeoService = {
                     thumbnail: data.thumbnail_url,
                     author: data.author_name,
                     pubDate: data.upload_date || new Date().toISOString(),
-                    link: `https://vimeo.com/${data.video_id}`,
-                    platform: 'vimeo'
+                    link: `https://vimeo.com/${item.sourceId}`,
+                    platform: 'vimeo',
+                    duration: data.duration || undefined
                 }];
             } catch (error) {
                 console.error('Vimeo Video Fetch Error:', error);
@@ -109,12 +212,13 @@ export const vimeoService = {
             }
         } 
         
-        // 2. Handle Channels & Users (RSS Feed via Proxy)
+        // 2. Handle Channels, Users & Showcases (RSS Feed via Proxy)
         else {
             try {
                 let rssUrl = '';
-                if (item.sourceId.startsWith('channels/')) {
-                     rssUrl = `https://vimeo.com/${item.sourceId}/videos/rss`;
+                if (item.type === 'playlist') {
+                     // Showcases kept the feed of the albums they replaced
+                     rssUrl = `https://vimeo.com/album/${albumRef(item.sourceId).albumId}/rss`;
                 } else {
                      rssUrl = `https://vimeo.com/${item.sourceId}/videos/rss`;
                 }
@@ -181,3 +285,94 @@ export const vimeoService = {
         }
     }
 };
+
+export const vimeoProvider: PlatformProvider = {
+    id: 'vimeo',
+    name: 'Vimeo',
+    credentials: [{ field: 'vimeoToken', label: 'Vimeo Access Token', required: false }],
+
+    setCredential(_field, value) {
+        vimeoService.setToken(value);
+    },
+
+    detect(url) {
+        if (!url.hostname.includes('vimeo.com')) return null;
+        const pathParts = url.pathname.split('/').filter(p => p); // Removes empty strings, handling trailing slashes
+
+        // Case 1: Player URL -> player.vimeo.com/video/123456?h=<hash>
+        if (url.hostname.startsWith('player.') && pathParts[0] === 'video' && pathParts[1]) {
+            const hash = url.searchParams.get('h');
+            return { platform: 'vimeo', sourceId: hash ? `${pathParts[1]}/${hash}` : pathParts[1], type: 'video' };
+        }
+
+        // Case 2: Showcase -> vimeo.com/showcase/123 (legacy: vimeo.com/album/123), unless it points at one of its videos
+        if ((pathParts[0] === 'showcase' || pathParts[0] === 'album') && pathParts[1] && pathParts[2] !== 'video') {
+            return { platform: 'vimeo', sourceId: `showcase/${pathParts[1]}`, type: 'playlist' };
+        }
+
+        // Case 3: User album -> vimeo.com/<user>/albums/123
+        if (pathParts[1] === 'albums' && pathParts[2]) {
+            return { platform: 'vimeo', sourceId: `${pathParts[0]}/albums/${pathParts[2]}`, type: 'playlist' };
+        }
+
+        // Case 4: Unlisted Video -> vimeo.com/123456/<hash>
+        if (pathParts.length === 2 && !isNaN(Number(pathParts[0])) && UNLISTED_HASH.test(pathParts[1])) {
+            return { platform: 'vimeo', sourceId: `${pathParts[0]}/${pathParts[1]}`, type: 'video' };
+        }
+
+        // Case 5: Channel Video -> vimeo.com/channels/staffpicks/123456
+        if (pathParts.includes('channels') && pathParts.length >= 3) {
+             const lastPart = pathParts[pathParts.length - 1];
+             if (!isNaN(Number(lastPart))) {
+                 return { platform: 'vimeo', sourceId: lastPart.trim(), type: 'video' };
+             }
+        }
+
+        // Case 6: Standard Video -> vimeo.com/123456
+        const potentialId = pathParts[pathParts.length - 1];
+        if (!isNaN(Number(potentialId))) {
+            return { platform: 'vimeo', sourceId: potentialId.trim(), type: 'video' };
+        }
+
+        // Case 7: Channel Collection -> vimeo.com/channels/staffpicks
+        // We must explicitly store "channels/" prefix so the service knows to use the channels RSS endpoint
+        if (pathParts[0] === 'channels' && pathParts.length >= 2) {
+            return { platform: 'vimeo', sourceId: `channels/${pathParts[1].trim()}`, type: 'channel' };
+        }
+
+        // Case 8: User/Profile -> vimeo.com/username
+        // If it's not a video ID and not 'channels', assume User
+        if (pathParts.length > 0) {
+            return { platform: 'vimeo', sourceId: pathParts[0].trim(), type: 'channel' };
+        }
+        return null;
+    },
+
+    /**
+     * Showcase URLs don't name their owner, which the public API needs. oEmbed reports it.
+     */
+    async resolveSource(source) {
+        if (source.type !== 'playlist' || albumRef(source.sourceId).user) return source;
+        try {
+            return { ...source, sourceId: await vimeoService.resolveShowcaseOwner(source.sourceId) };
+        } catch (e: any) {
+            // Still works for the token owner's own showcases
+            console.warn('Vimeo showcase owner lookup failed.', e.message);
+            return source;
+        }
+    },
+
+    getMetadata: source => vimeoService.getMetadata(source.sourceId, source.type),
+
+    getVideos: (item, cursor) => vimeoService.getVideos(item, cursor),
+
+    getEmbedUrl(sourceId) {
+        const { id, hash } = videoRef(sourceId);
+        return `https://player.vimeo.com/video/${id}${hash ? `?h=${hash}` : ''}`;
+    },
+
+    getWebUrl(sourceId, type) {
+        if (type === 'playlist') return `https://vimeo.com/showcase/${albumRef(sourceId).albumId}`;
+        return `https://vimeo.com/${sourceId}`;
+    }
+};
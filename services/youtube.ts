@@ -1,21 +1,231 @@
 
 import { dbService } from './db';
-import { MediaItem, VideoItem } from '../types';
+import { LiveStatus, MediaItem, VideoItem } from '../types';
 import { proxyService } from './proxy';
+import { youtubeQuota } from './youtubeQuota';
+import { PlatformProvider, SourceMetadata, SourceType, VideoPage } from './platforms';
 
 const BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
 
-// The API key is now held in memory here after decryption, not fetched from DB directly on every call
-let MEMORY_API_KEY: string | null = null;
+type ChannelRef = { kind: 'handle' | 'user' | 'custom'; name: string };
+
+/**
+ * Reads a channel reference stored by detect(): "@handle", "user/name" or "c/name".
+ * Channels saved before handles were resolved hold the bare custom name.
+ */
+const parseChannelRef = (ref: string): ChannelRef => {
+    if (ref.startsWith('@')) return { kind: 'handle', name: ref.slice(1) };
+    if (ref.startsWith('user/')) return { kind: 'user', name: ref.slice(5) };
+    return { kind: 'custom', name: ref.replace(/^c\//, '') };
+};
+
+const DETAILS_BATCH_SIZE = 50; // videos.list accepts at most 50 IDs per call
+
+// ISO 8601 durations as returned by the API: PT1H2M3S, P1DT2H...
+const parseDuration = (value?: string): number | undefined => {
+    const match = value?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return undefined;
+    const [, d, h, m, s] = match.map(n => Number(n) || 0);
+    return ((d * 24 + h) * 60 + m) * 60 + s;
+};
+
+// Shorts last up to 3 minutes but the API doesn't flag them: anything under a minute, or tagged #shorts
+const SHORT_MAX_UNTAGGED = 60;
+const SHORT_MAX_TAGGED = 180;
+
+const looksLikeShort = (duration: number, text: string) => {
+    return duration > 0 && (duration <= SHORT_MAX_UNTAGGED || (duration <= SHORT_MAX_TAGGED && /#shorts?\b/i.test(text)));
+};
+
+/**
+ * Extra fields from a videos.list resource (contentDetails, statistics, liveStreamingDetails).
+ * `text` is the title and description, checked for a #shorts tag.
+ */
+const videoDetails = (apiItem: any, text = `${apiItem.snippet?.title || ''} ${apiItem.snippet?.description || ''}`): Partial<VideoItem> => {
+    const duration = parseDuration(apiItem.contentDetails?.duration);
+    const live = apiItem.liveStreamingDetails;
+
+    let liveStatus: LiveStatus | undefined;
+    if (live?.actualStartTime && !live.actualEndTime) {
+        liveStatus = 'live';
+    } else if (live?.scheduledStartTime && !live.actualStartTime) {
+        // Premieres are uploaded videos, so they already have a duration. Scheduled streams report P0D
+        liveStatus = duration ? 'premiere' : 'upcoming';
+    }
+
+    // Premieres that already aired end up with the same details as stream recordings
+    const wasLive = !!live?.actualEndTime;
+
+    return {
+        duration: duration || undefined,
+        views: apiItem.statistics?.viewCount,
+        liveStatus,
+        scheduledStart: liveStatus && liveStatus !== 'live' ? live.scheduledStartTime : undefined,
+        wasLive: wasLive || undefined,
+        isShort: !liveStatus && !wasLive && looksLikeShort(duration || 0, text) ? true : undefined
+    };
+};
+
+// Patterns of a channel page that carry its canonical ID, most reliable first
+const CHANNEL_ID_SCRAPERS = [
+    /<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/,
+    /<meta itemprop="(?:identifier|channelId)" content="(UC[\w-]{22})"/,
+    /"(?:externalId|channelId)":"(UC[\w-]{22})"/
+];
+
+const bestThumbnail = (thumbnails: any): string | undefined => {
+    return thumbnails?.medium?.url || thumbnails?.high?.url || thumbnails?.default?.url;
+};
+
+/**
+ * Open Graph tags of a public page (og:title, og:image, og:description).
+ */
+const openGraph = (html: string): SourceMetadata => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const meta = (property: string) => doc.querySelector(`meta[property="${property}"]`)?.getAttribute('content') || undefined;
+    return { name: meta('og:title'), avatar: meta('og:image'), description: meta('og:description') };
+};
+
+// The API keys are now held in memory here after decryption, not fetched from DB directly on every call.
+// Several keys are stored one per line in the same credential, used in order as quotas run out
+let MEMORY_API_KEYS: string[] = [];
+
+// Error reasons meaning the key has no units left for the day
+const QUOTA_REASONS = ['quotaExceeded', 'dailyLimitExceeded'];
 
 export const youtubeService = {
     
-    setApiKey(key: string) {
-        MEMORY_API_KEY = key;
+    setApiKey(value: string) {
+        MEMORY_API_KEYS = value.split(/[\s,]+/).filter(k => k);
+        if (MEMORY_API_KEYS.length === 0) youtubeQuota.reset();
     },
 
+    getApiKeys(): string[] {
+        return MEMORY_API_KEYS;
+    },
+
+    /**
+     * First key with quota left today, null when there is none (RSS only).
+     */
     getApiKey(): string | null {
-        return MEMORY_API_KEY;
+        return MEMORY_API_KEYS.find(k => !youtubeQuota.isExhausted(k)) || null;
+    },
+
+    /**
+     * Data API GET with quota accounting. Rotates to the next key on quota errors,
+     * and throws once every key is exhausted so callers fall back to RSS.
+     */
+    async apiFetch(endpoint: string, params: string): Promise<any> {
+        await youtubeQuota.load(MEMORY_API_KEYS);
+
+        let key = this.getApiKey();
+        while (key) {
+            youtubeQuota.record(key, endpoint);
+            const res = await fetch(`${BASE_URL}/${endpoint}?${params}&key=${key}`);
+            if (res.ok) return res.json();
+
+            const err = await res.json().catch(() => ({}));
+            const reason = err.error?.errors?.[0]?.reason;
+            if (!QUOTA_REASONS.includes(reason)) {
+                throw new Error(err.error?.message || `YouTube API Error (${endpoint})`);
+            }
+
+            console.warn(`YouTube API key ${youtubeQuota.hintOf(key)} is out of quota, trying the next one.`);
+            youtubeQuota.markExhausted(key);
+            key = this.getApiKey();
+        }
+        throw new Error('YouTube API quota exhausted for every key');
+    },
+
+    isChannelId(sourceId: string): boolean {
+        return CHANNEL_ID_PATTERN.test(sourceId);
+    },
+
+    /**
+     * Turns a handle, legacy username or custom URL name into the channel's UC… ID.
+     * Uses the API when a key is set, otherwise reads the channel page through the proxy.
+     */
+    async resolveChannelId(ref: string): Promise<string> {
+        if (this.isChannelId(ref)) return ref;
+        const channel = parseChannelRef(ref);
+
+        if (this.getApiKey()) {
+            try {
+                const channelId = await this.lookupChannelId(channel);
+                if (channelId) return channelId;
+            } catch (e: any) {
+                console.warn('YouTube channel lookup failed, falling back to the channel page.', e.message);
+            }
+        }
+
+        return this.scrapeChannelId(channel);
+    },
+
+    async lookupChannelId(channel: ChannelRef): Promise<string | null> {
+        // Custom URLs (/c/) have no API lookup, but most match the channel's handle or legacy username
+        const queries = channel.kind === 'handle' ? [`forHandle=${encodeURIComponent('@' + channel.name)}`]
+            : channel.kind === 'user' ? [`forUsername=${encodeURIComponent(channel.name)}`]
+            : [`forHandle=${encodeURIComponent('@' + channel.name)}`, `forUsername=${encodeURIComponent(channel.name)}`];
+
+        for (const query of queries) {
+            const data = await this.apiFetch('channels', `part=id&${query}`);
+            if (data.items?.[0]?.id) return data.items[0].id;
+        }
+        return null;
+    },
+
+    async scrapeChannelId(channel: ChannelRef): Promise<string> {
+        const path = channel.kind === 'handle' ? `@${channel.name}` : `${channel.kind === 'user' ? 'user' : 'c'}/${channel.name}`;
+        const html = await proxyService.fetchText(`https://www.youtube.com/${encodeURI(path)}`);
+
+        for (const pattern of CHANNEL_ID_SCRAPERS) {
+            const match = html.match(pattern);
+            if (match) return match[1];
+        }
+        throw new Error(`Could not find the YouTube channel ID for "${path}".`);
+    },
+
+    /**
+     * Name, artwork and description for the add form. Uses the API snippets when a key is set,
+     * otherwise oEmbed or the channel page's Open Graph tags, read through the proxy.
+     */
+    async getMetadata(sourceId: string, type: SourceType): Promise<SourceMetadata> {
+        if (type === 'video') return this.fetchOEmbed(`https://www.youtube.com/watch?v=${sourceId}`);
+
+        if (this.getApiKey()) {
+            try {
+                if (type === 'playlist') {
+                    const data = await this.apiFetch('playlists', `part=snippet&id=${sourceId}`);
+                    const snippet = data.items?.[0]?.snippet;
+                    if (snippet) return { name: snippet.title, avatar: bestThumbnail(snippet.thumbnails), description: snippet.description };
+                } else {
+                    const channelId = await this.resolveChannelId(sourceId);
+                    const data = await this.apiFetch('channels', `part=snippet,brandingSettings&id=${channelId}`);
+                    const channel = data.items?.[0];
+                    if (channel) {
+                        return {
+                            name: channel.snippet.title,
+                            avatar: bestThumbnail(channel.snippet.thumbnails),
+                            banner: channel.brandingSettings?.image?.bannerExternalUrl,
+                            description: channel.snippet.description
+                        };
+                    }
+                }
+            } catch (e: any) {
+                console.warn('YouTube metadata lookup failed, falling back to the public pages.', e.message);
+            }
+        }
+
+        if (type === 'playlist') return this.fetchOEmbed(`https://www.youtube.com/playlist?list=${sourceId}`);
+
+        const path = this.isChannelId(sourceId) ? `channel/${sourceId}` : sourceId;
+        return openGraph(await proxyService.fetchText(`https://www.youtube.com/${encodeURI(path)}`));
+    },
+
+    async fetchOEmbed(url: string): Promise<SourceMetadata> {
+        const data = JSON.parse(await proxyService.fetchText(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(url)}`));
+        return { name: data.title, avatar: data.thumbnail_url };
     },
 
     /**
@@ -23,18 +233,11 @@ export const youtubeService = {
      */
     async getChannelUploadsId(channelId: string): Promise<string> {
         // Fallback to proxy immediately if no key
-        if (!MEMORY_API_KEY) {
+        if (!this.getApiKey()) {
             throw new Error('No API Key'); // Handled by caller to switch strategies
         }
         
-        const res = await fetch(`${BASE_URL}/channels?part=contentDetails&id=${channelId}&key=${MEMORY_API_KEY}`);
-        
-        if (!res.ok) {
-            const err = await res.json();
-            throw new Error(err.error?.message || 'Failed to fetch channel details');
-        }
-
-        const data = await res.json();
+        const data = await this.apiFetch('channels', `part=contentDetails&id=${channelId}`);
         if (!data.items?.[0]) throw new Error('Channel not found');
         return data.items[0].contentDetails.relatedPlaylists.uploads;
     },
@@ -42,14 +245,22 @@ export const youtubeService = {
     /**
      * Main fetcher for UI. Handles Channels (via Uploads ID), Playlists, and Single Videos.
      * Implements "API First, RSS Proxy Fallback" strategy.
+     * `cursor` is the API's nextPageToken, RSS only ever returns the latest entries.
      */
-    async getVideos(item: MediaItem): Promise<VideoItem[]> {
+    async getVideos(item: MediaItem, cursor?: string): Promise<VideoPage> {
+
+        // Channels saved before handle resolution still hold "@handle" or a custom name
+        if (item.type === 'channel' && !this.isChannelId(item.sourceId)) {
+            item = { ...item, sourceId: await this.resolveChannelId(item.sourceId) };
+            if (item.id) await dbService.update('channels', item);
+        }
         
-        // Strategy 1: Official API (If Key exists)
-        if (MEMORY_API_KEY) {
+        // Strategy 1: Official API (If a key with quota left exists)
+        if (this.getApiKey()) {
             try {
-                return await this.fetchViaApi(item);
+                return await this.fetchViaApi(item, cursor);
             } catch (apiError: any) {
+                if (cursor) throw apiError; // RSS can't continue an API page
                 console.warn('YouTube API failed, falling back to RSS.', apiError.message);
                 // Fallthrough to RSS
             }
@@ -57,14 +268,14 @@ export const youtubeService = {
 
         // Strategy 2: RSS Feed via Proxy (Fallback)
         try {
-            return await this.fetchViaRSS(item);
+            return { videos: await this.fetchViaRSS(item) };
         } catch (rssError: any) {
             console.error('YouTube RSS Fallback failed', rssError);
             throw new Error('Failed to load content via API or RSS Proxy.');
         }
     },
 
-    async fetchViaApi(item: MediaItem): Promise<VideoItem[]> {
+    async fetchViaApi(item: MediaItem, cursor?: string): Promise<VideoPage> {
         let playlistId = item.sourceId; // Default for playlists
 
         if (item.type === 'channel') {
@@ -79,20 +290,39 @@ export const youtubeService = {
             }
         } else if (item.type === 'video') {
              // Handle single video fetch directly
-             const res = await fetch(`${BASE_URL}/videos?part=snippet,statistics&id=${item.sourceId}&key=${MEMORY_API_KEY}`);
-             if (!res.ok) throw new Error('Failed to fetch video details');
-             const data = await res.json();
-             return data.items.map(this.mapApiVideoToItem);
+             const data = await this.apiFetch('videos', `part=snippet,contentDetails,statistics,liveStreamingDetails&id=${item.sourceId}`);
+             return { videos: data.items.map(this.mapApiVideoToItem) };
         }
 
-        // Fetch Playlist Items (Limit 50)
-        const res = await fetch(`${BASE_URL}/playlistItems?part=snippet&playlistId=${playlistId}&maxResults=50&key=${MEMORY_API_KEY}`);
-        
-        if (!res.ok) throw new Error('YouTube API Error');
-
-        const data = await res.json();
+        // Fetch Playlist Items (Limit 50 per page)
+        const pageToken = cursor ? `&pageToken=${encodeURIComponent(cursor)}` : '';
+        const data = await this.apiFetch('playlistItems', `part=snippet&playlistId=${playlistId}&maxResults=50${pageToken}`);
         const validItems = data.items.filter((i: any) => i.snippet.title !== 'Private video' && i.snippet.title !== 'Deleted video');
-        return validItems.map(this.mapApiPlaylistItemToItem);
+        const videos = await this.enrichVideos(validItems.map(this.mapApiPlaylistItemToItem));
+        return { videos, nextCursor: data.nextPageToken };
+    },
+
+    /**
+     * Adds duration, views and live state, which playlistItems doesn't return.
+     * Best effort: on failure the videos are returned as they are.
+     */
+    async enrichVideos(videos: VideoItem[]): Promise<VideoItem[]> {
+        if (!this.getApiKey() || videos.length === 0) return videos;
+
+        const details = new Map<string, Partial<VideoItem>>();
+        const textOf = new Map(videos.map(v => [v.id, `${v.title} ${v.description}`]));
+        try {
+            for (let i = 0; i < videos.length; i += DETAILS_BATCH_SIZE) {
+                const ids = videos.slice(i, i + DETAILS_BATCH_SIZE).map(v => v.id).join(',');
+                const data = await this.apiFetch('videos', `part=contentDetails,statistics,liveStreamingDetails&id=${ids}`);
+                (data.items || []).forEach((d: any) => details.set(d.id, videoDetails(d, textOf.get(d.id))));
+            }
+        } catch (e: any) {
+            console.warn('YouTube enrichment skipped.', e.message);
+            return videos;
+        }
+
+        return videos.map(v => details.has(v.id) ? { ...v, ...details.get(v.id) } : v);
     },
 
     async fetchViaRSS(item: MediaItem): Promise<VideoItem[]> {
@@ -133,6 +363,8 @@ export const youtubeService = {
             const author = getTag("name");
             const description = getTag("media:description");
             const thumbnail = `https://i.ytimg.com/vi/${videoId}/mqdefault.jpg`;
+            // The feed links Shorts to their /shorts/ page instead of /watch
+            const href = entry.getElementsByTagName("link")[0]?.getAttribute("href") || "";
 
             return {
                 id: videoId,
@@ -142,7 +374,8 @@ export const youtubeService = {
                 author,
                 description,
                 link: `https://www.youtube.com/watch?v=${videoId}`,
-                platform: 'youtube'
+                platform: 'youtube',
+                isShort: href.includes('/shorts/') || undefined
             };
         });
     },
@@ -171,7 +404,67 @@ export const youtubeService = {
             author: snippet.channelTitle,
             description: snippet.description,
             link: `https://www.youtube.com/watch?v=${apiItem.id}`,
-            platform: 'youtube'
+            platform: 'youtube',
+            ...videoDetails(apiItem)
         };
     }
 }
+
+export const youtubeProvider: PlatformProvider = {
+    id: 'youtube',
+    name: 'YouTube',
+    credentials: [{ field: 'apiKey', label: 'YouTube API Key', required: false }],
+
+    setCredential(_field, value) {
+        youtubeService.setApiKey(value);
+    },
+
+    detect(url) {
+        const hostname = url.hostname.replace('www.', '');
+        if (!hostname.includes('youtube.com') && !hostname.includes('youtu.be')) return null;
+
+        const path = url.pathname;
+        let id = '';
+        if (url.searchParams.has('v')) id = url.searchParams.get('v') || '';
+        else if (path.startsWith('/embed/')) id = path.split('/embed/')[1];
+        else if (hostname.includes('youtu.be')) id = path.slice(1);
+        else if (path.startsWith('/shorts/')) id = path.split('/shorts/')[1];
+        
+        if (id) return { platform: 'youtube', sourceId: id.trim(), type: 'video' };
+        
+        if (url.searchParams.has('list')) {
+            const listId = url.searchParams.get('list') || '';
+            return { platform: 'youtube', sourceId: listId.trim(), type: 'playlist' };
+        }
+
+        if (path.startsWith('/channel/') || path.startsWith('/c/') || path.startsWith('/user/') || path.startsWith('/@')) {
+            const segments = path.split('/').filter(p => p).map(p => decodeURIComponent(p).trim());
+
+            // /channel/UC… is already the ID. Handles and names are kept as "@handle", "c/name" or
+            // "user/name" until resolveSource() swaps them for the UC… ID
+            if (segments[0] === 'channel') return { platform: 'youtube', sourceId: segments[1], type: 'channel' };
+            if (segments[0].startsWith('@')) return { platform: 'youtube', sourceId: segments[0], type: 'channel' };
+            if (segments[1]) return { platform: 'youtube', sourceId: `${segments[0]}/${segments[1]}`, type: 'channel' };
+        }
+        return null;
+    },
+
+    async resolveSource(source) {
+        if (source.type !== 'channel' || youtubeService.isChannelId(source.sourceId)) return source;
+        return { ...source, sourceId: await youtubeService.resolveChannelId(source.sourceId) };
+    },
+
+    getMetadata: source => youtubeService.getMetadata(source.sourceId, source.type),
+
+    getVideos: (item, cursor) => youtubeService.getVideos(item, cursor),
+
+    getEmbedUrl: sourceId => `https://www.youtube.com/embed/${sourceId}?autoplay=1`,
+
+    getWebUrl(sourceId, type) {
+        if (type === 'channel') {
+            return youtubeService.isChannelId(sourceId) ? `https://www.youtube.com/channel/${sourceId}` : `https://www.youtube.com/${sourceId}`;
+        }
+        if (type === 'playlist') return `https://www.youtube.com/playlist?list=${sourceId}`;
+        return `https://youtube.com/watch?v=${sourceId}`;
+    }
+};
@@ -0,0 +1,156 @@
+import { dbService } from './db';
+import { QuotaLedger } from '../types';
+
+// Units each Data API call costs (https://developers.google.com/youtube/v3/determine_quota_cost)
+export const QUOTA_COSTS: Record<string, number> = {
+    channels: 1,
+    playlistItems: 1,
+    playlists: 1,
+    videos: 1,
+    search: 100
+};
+
+export const DAILY_QUOTA = 10000; // Default allocation of a Google Cloud project
+const QUOTA_TIMEZONE = 'America/Los_Angeles';
+const SAVE_DELAY = 2000; // Batches the writes of a feed refresh into one
+
+export interface KeyUsage {
+    label: string; // Ledger fingerprint of the key
+    hint: string; // Last characters, for display only
+    used: number;
+    exhausted: boolean;
+}
+
+// Loaded from the open vault's settings on first use
+let ledger: QuotaLedger | null = null;
+let loading: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Key -> fingerprint, computed by load() since hashing is async
+const labels = new Map<string, string>();
+
+const fingerprint = async (key: string): Promise<string> => {
+    const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    return Array.from(new Uint8Array(digest).slice(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const pacificDay = (date = new Date()): string => {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone: QUOTA_TIMEZONE }).format(date);
+};
+
+const currentLedger = (): QuotaLedger => {
+    const day = pacificDay();
+    if (!ledger || ledger.day !== day) {
+        ledger = { day, usage: {} };
+    }
+    return ledger;
+};
+
+const saveLedger = async (current: QuotaLedger) => {
+    try {
+        // Only this field is written, settings saved meanwhile are kept
+        await dbService.patchSettings({ youtubeQuota: current });
+    } catch (e) {
+        console.warn('Failed to save the YouTube quota ledger', e);
+    }
+};
+
+const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        saveLedger(currentLedger());
+    }, SAVE_DELAY);
+};
+
+export const youtubeQuota = {
+
+    /**
+     * Keys are never stored in the ledger, only a short SHA-256 fingerprint of the whole key
+     * (two keys ending alike still get their own counts). Empty until load() has seen the key.
+     */
+    labelOf(key: string): string {
+        return labels.get(key) || '';
+    },
+
+    /**
+     * Last characters of a key, enough for the user to tell their keys apart.
+     */
+    hintOf(key: string): string {
+        return `…${key.slice(-4)}`;
+    },
+
+    /**
+     * Reads the ledger from the vault and fingerprints the keys about to be used.
+     */
+    async load(keys: string[] = []): Promise<void> {
+        for (const key of keys) {
+            if (!labels.has(key)) labels.set(key, await fingerprint(key));
+        }
+        if (ledger) return;
+        if (!loading) {
+            loading = dbService.getSettings()
+                .then(settings => { ledger = settings?.youtubeQuota || null; })
+                .catch(() => { /* Starts an empty ledger */ })
+                .finally(() => { loading = null; });
+        }
+        await loading;
+    },
+
+    /**
+     * Adds the estimated cost of a call, whatever its outcome (failed requests are billed too).
+     */
+    record(key: string, endpoint: string) {
+        const current = currentLedger();
+        const label = this.labelOf(key);
+        current.usage[label] = (current.usage[label] || 0) + (QUOTA_COSTS[endpoint] ?? 1);
+        scheduleSave();
+    },
+
+    markExhausted(key: string) {
+        const current = currentLedger();
+        const label = this.labelOf(key);
+        current.exhausted = Array.from(new Set([...(current.exhausted || []), label]));
+        scheduleSave();
+    },
+
+    isExhausted(key: string): boolean {
+        const label = this.labelOf(key);
+        return !!label && !!currentLedger().exhausted?.includes(label);
+    },
+
+    getUsage(keys: string[]): KeyUsage[] {
+        const current = currentLedger();
+        return keys.map(key => {
+            const label = this.labelOf(key);
+            return { label, hint: this.hintOf(key), used: current.usage[label] || 0, exhausted: !!current.exhausted?.includes(label) };
+        });
+    },
+
+    /**
+     * Milliseconds until the next midnight in Pacific time, when Google resets quotas.
+     */
+    msUntilReset(now = new Date()): number {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: QUOTA_TIMEZONE, hour: 'numeric', minute: 'numeric', second: 'numeric', hourCycle: 'h23'
+        }).formatToParts(now);
+        const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+        const elapsed = ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000;
+        return 24 * 60 * 60 * 1000 - elapsed;
+    },
+
+    /**
+     * Forgets the in-memory ledger (keys changed, vault locked). The next call reloads it from the vault.
+     */
+    reset() {
+        // Writes the usage still waiting for the debounce, the vault is still open at this point
+        if (saveTimer) {
+            clearTimeout(saveTimer);
+            if (ledger) saveLedger(ledger);
+        }
+        saveTimer = null;
+        ledger = null;
+        labels.clear();
+    }
+};
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { DB_VERSION, runMigrations } from '../services/migrations';
+import { DBService } from '../services/db';
+import { DEFAULT_CHANNELS, DEFAULT_PLAYLISTS, DEFAULT_TAGS } from '../types';
+
+const DB = 'MigrationTestDB';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+/**
+ * Opens the test database at `version`, running the migrations up to that version only.
+ */
+const openAt = (version: number): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB, version);
+    req.onupgradeneeded = event => runMigrations(req.result, req.transaction!, event.oldVersion, version);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const getAll = async (db: IDBDatabase, store: string): Promise<any[]> => {
+    return request(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+/**
+ * A v3 vault as written by the builds before versioned migrations: core stores,
+ * items without a platform and tags saved as a comma separated string.
+ */
+const createV3Fixture = async () => {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(DB, 3);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            db.createObjectStore('auth', { keyPath: 'username' });
+            db.createObjectStore('channels', { keyPath: 'id', autoIncrement: true }).createIndex('name', 'name', { unique: false });
+            db.createObjectStore('playlists', { keyPath: 'id', autoIncrement: true });
+            db.createObjectStore('favorites', { keyPath: 'id', autoIncrement: true }).createIndex('tags', 'tags', { unique: false, multiEntry: true });
+            db.createObjectStore('tags', { keyPath: 'id', autoIncrement: true }).createIndex('name', 'name', { unique: true });
+            db.createObjectStore('settings', { keyPath: 'id' });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+    const tx = db.transaction(['channels', 'favorites', 'tags', 'auth'], 'readwrite');
+    tx.objectStore('auth').add({ username: 'alice', salt: 's', verifier: 'v' });
+    tx.objectStore('channels').add({ name: 'Legacy', sourceId: 'UC1', url: '', type: 'channel', tags: 'Science, News,,Science', createdAt: 1 });
+    tx.objectStore('channels').add({ name: 'Vimeo', sourceId: 'staff', url: '', type: 'channel', platform: 'vimeo', tags: ['Art'], createdAt: 2 });
+    tx.objectStore('favorites').add({ name: 'Fav', sourceId: 'abc', url: '', type: 'video', tags: [' Space ', 'Space'], createdAt: 3 });
+    tx.objectStore('tags').add({ name: 'Science' });
+    await new Promise(resolve => { tx.oncomplete = resolve; });
+    db.close();
+};
+
+describe('migrations', () => {
+    beforeEach(() => {
+        // Every test starts from an empty browser profile
+        globalThis.indexedDB = new IDBFactory();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('creates and seeds every store on a fresh install', async () => {
+        const db = await openAt(DB_VERSION);
+
+        expect(Array.from(db.objectStoreNames).sort()).toEqual(
+            ['auditLog', 'auth', 'channels', 'favorites', 'lessons', 'playlists', 'settings', 'tags', 'watchLater']
+        );
+        expect(await getAll(db, 'channels')).toHaveLength(DEFAULT_CHANNELS.length);
+        expect(await getAll(db, 'playlists')).toHaveLength(DEFAULT_PLAYLISTS.length);
+        expect((await getAll(db, 'tags')).map(t => t.name)).toEqual(DEFAULT_TAGS);
+        db.close();
+    });
+
+    it('upgrades a v3 vault step by step without losing or seeding data', async () => {
+        await createV3Fixture();
+
+        // v4: core stores are kept, defaults are only for brand new databases
+        let db = await openAt(4);
+        expect((await getAll(db, 'channels')).map(c => c.name)).toEqual(['Legacy', 'Vimeo']);
+        expect(await getAll(db, 'playlists')).toEqual([]);
+        expect((await getAll(db, 'channels'))[0].tags).toBe('Science, News,,Science');
+        db.close();
+
+        // v5: Watch Later
+        db = await openAt(5);
+        expect(db.objectStoreNames.contains('watchLater')).toBe(true);
+        db.close();
+
+        // v6: lessons, indexed by video
+        db = await openAt(6);
+        const lessons = db.transaction('lessons', 'readonly').objectStore('lessons');
+        expect(Array.from(lessons.indexNames)).toEqual(['videoId']);
+        db.close();
+
+        // v7: platform backfill, tag normalization and tag registration
+        db = await openAt(7);
+        const [legacy, vimeo] = await getAll(db, 'channels');
+        expect(legacy).toMatchObject({ platform: 'youtube', tags: ['Science', 'News'] });
+        expect(vimeo).toMatchObject({ platform: 'vimeo', tags: ['Art'] });
+        expect((await getAll(db, 'favorites'))[0]).toMatchObject({ platform: 'youtube', tags: ['Space'] });
+        expect((await getAll(db, 'tags')).map(t => t.name).sort()).toEqual(['Art', 'News', 'Science', 'Space']);
+        db.close();
+
+        // v8: unlock audit log, indexed by time
+        db = await openAt(8);
+        const auditLog = db.transaction('auditLog', 'readonly').objectStore('auditLog');
+        expect(auditLog.autoIncrement).toBe(true);
+        expect(Array.from(auditLog.indexNames)).toEqual(['timestamp']);
+        expect(await getAll(db, 'auth')).toEqual([{ username: 'alice', salt: 's', verifier: 'v' }]);
+        db.close();
+    });
+
+    it('upgrades a v3 vault in one go through DBService.init', async () => {
+        await createV3Fixture();
+
+        const service = new DBService();
+        await service.init(DB);
+        const channels = await service.getAll<any>('channels');
+        expect(channels.map(c => [c.name, c.platform, c.tags])).toEqual([
+            ['Legacy', 'youtube', ['Science', 'News']],
+            ['Vimeo', 'vimeo', ['Art']]
+        ]);
+        service.close();
+    });
+});
@@ -0,0 +1,210 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DOMParser } from '@xmldom/xmldom';
+import { peertubeProvider, peertubeService } from '../services/peertube';
+import { proxyService } from '../services/proxy';
+import { mediaResolver } from '../services/mediaResolver';
+import { MediaItem } from '../types';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/peertube/${name}`, import.meta.url), 'utf8');
+
+const jsonResponse = (body: string, status = 200) => new Response(body, { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Answers fetch with the fixture (trimmed API response) of each path, 404 for anything else.
+ */
+const serveApi = (routes: Record<string, string>) => {
+    const fetchMock = vi.fn(async (input: string | URL | Request) => {
+        const url = new URL(String(input));
+        const name = routes[decodeURIComponent(url.pathname)];
+        return name ? jsonResponse(fixture(name)) : new Response('Not found', { status: 404 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+};
+
+const detect = (href: string, contextType: 'channel' | 'playlist' | 'video' = 'channel') => {
+    return peertubeProvider.detect(new URL(href), contextType);
+};
+
+const channel: MediaItem = {
+    name: 'Join PeerTube', sourceId: 'c/joinpeertube@framatube.org', url: '', type: 'channel', platform: 'peertube', instance: 'framatube.org', tags: [], createdAt: 0
+};
+
+describe('peertube', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    describe('detect', () => {
+        it('recognizes video, playlist, channel and account URLs', () => {
+            expect(detect('https://framatube.org/w/kkGMgK9ZtnKfYAgnEtQxbv', 'channel')).toEqual(
+                { platform: 'peertube', sourceId: 'kkGMgK9ZtnKfYAgnEtQxbv', type: 'video', instance: 'framatube.org' }
+            );
+            expect(detect('https://framatube.org/videos/watch/9c9de5e8-0a1e-484a-b099-e80766180a6d')?.sourceId).toBe('9c9de5e8-0a1e-484a-b099-e80766180a6d');
+            expect(detect('https://peertube.tv/w/p/mZ3kR8vT1qWx5yN7bC2dLp')).toMatchObject({ sourceId: 'mZ3kR8vT1qWx5yN7bC2dLp', type: 'playlist' });
+            expect(detect('https://framatube.org/c/joinpeertube@framatube.org/videos')).toMatchObject({ sourceId: 'c/joinpeertube@framatube.org', type: 'channel' });
+            expect(detect('https://framatube.org/a/framasoft@framatube.org')).toMatchObject({ sourceId: 'a/framasoft@framatube.org', type: 'channel' });
+            expect(detect('https://tube.example:8443/video-channels/3f3b8e6c-62a4-4b0c-9e7a-1f5c2d6a7b90')).toMatchObject({
+                sourceId: 'c/3f3b8e6c-62a4-4b0c-9e7a-1f5c2d6a7b90', instance: 'tube.example:8443'
+            });
+        });
+
+        it('ignores sites that only share the URL layout', () => {
+            expect(detect('https://en.wikipedia.org/w/index.php?title=PeerTube')).toBeNull();
+            expect(detect('https://en.wikipedia.org/w/api.php')).toBeNull();
+            expect(detect('https://forum.example.com/w/p/general')).toBeNull();
+            expect(detect('https://blog.example.com/c/why%20us')).toBeNull();
+        });
+    });
+
+    describe('local actors', () => {
+        it('adds a local channel from its /c/ URL', async () => {
+            serveApi({ '/api/v1/config': 'config.json', '/api/v1/video-channels/framasoft_channel/videos': 'channel-videos.json' });
+            const detected = mediaResolver.detectSource('https://framatube.org/c/framasoft_channel/videos', 'channel');
+            expect(detected).toEqual({ platform: 'peertube', sourceId: 'c/framasoft_channel', type: 'channel', instance: 'framatube.org' });
+
+            const source = await mediaResolver.resolveSource(detected, 'https://framatube.org/c/framasoft_channel/videos', 'channel');
+            const page = await peertubeService.getVideos({ ...channel, ...source });
+            expect(page.videos.map(v => v.id)).toEqual(['8Qk2xJmTzVd1NwZ5rH3pLs', 'P4hVc7nQwErTyUi9oAsDfG']);
+        });
+
+        it('adds a local account from its /a/ URL', async () => {
+            const fetchMock = serveApi({ '/api/v1/config': 'config.json', '/api/v1/accounts/framasoft/videos': 'channel-videos.json' });
+            const detected = mediaResolver.detectSource('https://framatube.org/a/framasoft', 'channel');
+            expect(detected).toEqual({ platform: 'peertube', sourceId: 'a/framasoft', type: 'channel', instance: 'framatube.org' });
+
+            const source = await mediaResolver.resolveSource(detected, 'https://framatube.org/a/framasoft', 'channel');
+            const page = await peertubeService.getVideos({ ...channel, ...source });
+            expect(String(fetchMock.mock.calls.at(-1)![0])).toBe(
+                'https://framatube.org/api/v1/accounts/framasoft/videos?start=0&count=50&sort=-publishedAt'
+            );
+            expect(page.videos).toHaveLength(2);
+        });
+
+        it('leaves local-looking paths on other sites to the config check', async () => {
+            serveApi({});
+            for (const href of ['https://blog.example.com/c/announcements', 'https://blog.example.com/a/about-us', 'https://shop.example.com/accounts/login']) {
+                const source = detect(href);
+                expect(source?.platform).toBe('peertube');
+                expect(await peertubeProvider.resolveSource!(source!)).toBeNull();
+            }
+        });
+    });
+
+    describe('resolveSource', () => {
+        it('keeps the source when the host serves a PeerTube config', async () => {
+            serveApi({ '/api/v1/config': 'config.json' });
+            const source = detect('https://framatube.org/w/kkGMgK9ZtnKfYAgnEtQxbv')!;
+            expect(await peertubeProvider.resolveSource!(source)).toEqual(source);
+        });
+
+        it('declines hosts that are not PeerTube instances', async () => {
+            vi.stubGlobal('fetch', vi.fn(async () => new Response('<!doctype html><title>Blog</title>', { status: 200 })));
+            const source = detect('https://blog.example.com/c/news@blog.example.com')!;
+            expect(await peertubeProvider.resolveSource!(source)).toBeNull();
+        });
+
+        it('hands declined URLs to the next provider', async () => {
+            serveApi({});
+            const input = 'https://blog.example.com/c/news@blog.example.com/feed';
+            const detected = mediaResolver.detectSource(input, 'channel');
+            expect(detected.platform).toBe('peertube');
+
+            expect(await mediaResolver.resolveSource(detected, input, 'channel')).toEqual({ platform: 'feed', sourceId: input, type: 'channel' });
+        });
+    });
+
+    describe('API', () => {
+        it('maps a single video', async () => {
+            const fetchMock = serveApi({ '/api/v1/videos/kkGMgK9ZtnKfYAgnEtQxbv': 'video.json' });
+            const page = await peertubeService.getVideos({ ...channel, sourceId: 'kkGMgK9ZtnKfYAgnEtQxbv', type: 'video' });
+
+            expect(fetchMock).toHaveBeenCalledWith('https://framatube.org/api/v1/videos/kkGMgK9ZtnKfYAgnEtQxbv');
+            expect(page.videos).toEqual([{
+                id: 'kkGMgK9ZtnKfYAgnEtQxbv',
+                title: 'What is PeerTube?',
+                description: 'PeerTube is a free and decentralized alternative to video platforms.',
+                thumbnail: 'https://framatube.org/lazy-static/thumbnails/9c9de5e8-0a1e-484a-b099-e80766180a6d.jpg',
+                author: 'A propos de PeerTube',
+                pubDate: '2018-10-01T10:57:45.000Z',
+                link: 'https://framatube.org/videos/watch/9c9de5e8-0a1e-484a-b099-e80766180a6d',
+                platform: 'peertube',
+                instance: 'framatube.org',
+                duration: 113,
+                views: '81305',
+                liveStatus: undefined,
+                wasLive: undefined
+            }]);
+        });
+
+        it('maps channel videos and pages with the start offset', async () => {
+            const fetchMock = serveApi({ '/api/v1/video-channels/joinpeertube@framatube.org/videos': 'channel-videos.json' });
+            const page = await peertubeService.getVideos(channel);
+
+            expect(String(fetchMock.mock.calls[0][0])).toBe(
+                'https://framatube.org/api/v1/video-channels/joinpeertube%40framatube.org/videos?start=0&count=50&sort=-publishedAt'
+            );
+            expect(page.videos.map(v => [v.id, v.title, v.wasLive])).toEqual([
+                ['8Qk2xJmTzVd1NwZ5rH3pLs', 'PeerTube v6 is out!', undefined],
+                ['P4hVc7nQwErTyUi9oAsDfG', 'Live Q&A with the PeerTube team', true]
+            ]);
+            expect(page.nextCursor).toBe('2');
+        });
+
+        it('unwraps playlist entries and drops deleted videos', async () => {
+            serveApi({ '/api/v1/video-playlists/mZ3kR8vT1qWx5yN7bC2dLp/videos': 'playlist-videos.json' });
+            const page = await peertubeService.getVideos({ ...channel, sourceId: 'mZ3kR8vT1qWx5yN7bC2dLp', type: 'playlist', instance: 'framatube.org' });
+
+            expect(page.videos).toHaveLength(1);
+            expect(page.videos[0]).toMatchObject({
+                id: 'mZ3kR8vT1qWx5yN7bC2dLp',
+                author: 'Fediverse 101',
+                // Federated video: played from its origin, thumbnail from the instance that listed it
+                instance: 'peertube.tv',
+                thumbnail: 'https://framatube.org/lazy-static/thumbnails/5d2c7f10-8e4b-4a6c-b1d3-9f0e8a7b6c5d.jpg'
+            });
+            expect(page.nextCursor).toBeUndefined();
+        });
+    });
+
+    describe('RSS fallback', () => {
+        it('reads the channel feed through the proxy when the API fails', async () => {
+            vi.stubGlobal('DOMParser', DOMParser);
+            serveApi({});
+            const fetchText = vi.spyOn(proxyService, 'fetchText').mockResolvedValue(fixture('channel-feed.xml'));
+
+            const page = await peertubeService.getVideos(channel);
+
+            expect(fetchText).toHaveBeenCalledWith('https://framatube.org/feeds/videos.xml?videoChannelName=joinpeertube%40framatube.org');
+            expect(page.videos).toEqual([
+                {
+                    id: '8Qk2xJmTzVd1NwZ5rH3pLs',
+                    title: 'PeerTube v6 is out!',
+                    description: 'Discover the new features of PeerTube v6.',
+                    thumbnail: 'https://framatube.org/lazy-static/thumbnails/3f3b8e6c-62a4-4b0c-9e7a-1f5c2d6a7b90.jpg',
+                    author: 'A propos de PeerTube',
+                    pubDate: '2023-11-28T09:30:00.000Z',
+                    link: 'https://framatube.org/w/8Qk2xJmTzVd1NwZ5rH3pLs',
+                    platform: 'peertube',
+                    instance: 'framatube.org'
+                },
+                expect.objectContaining({ id: 'mZ3kR8vT1qWx5yN7bC2dLp', thumbnail: '', instance: 'peertube.tv' })
+            ]);
+        });
+
+        it('only falls back for the first page', async () => {
+            serveApi({});
+            const fetchText = vi.spyOn(proxyService, 'fetchText');
+
+            await expect(peertubeService.getVideos(channel, '50')).rejects.toThrow('PeerTube API Error');
+            expect(fetchText).not.toHaveBeenCalled();
+        });
+    });
+});
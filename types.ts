@@ -1,8 +1,43 @@
 
+export interface VaultEntry {
+  username: string;
+  dbName: string; // IndexedDB database holding this vault
+  createdAt: number;
+}
+
+export interface KdfParams {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+}
+
+export interface RecoveryEnvelope {
+  salt: string; // Base64 HKDF salt for the recovery key
+  wrappedKey: EncryptedData;
+  createdAt: number;
+}
+
 export interface UserAuth {
   username: string;
   salt: string; // Base64 encoded random salt
-  verifier: string; // Base64 encoded hash of the derived key (to verify password is correct)
+  verifier: string; // Base64 encoded verification sub-key (to verify password is correct)
+  kdf?: KdfParams; // Missing on legacy vaults (100k iterations, verifier = hash of the raw encryption key)
+  wrappedDataKey?: EncryptedData; // Random data key wrapped with the password key, missing on vaults that encrypt with the password key directly
+  recovery?: RecoveryEnvelope; // Second copy of the data key, wrapped with the recovery key
+
+  // Brute-force throttling (persisted so a reload doesn't reset it)
+  failedAttempts?: number; // Consecutive failed unlocks
+  lockedUntil?: number; // Timestamp before which no unlock is attempted
+}
+
+export type AuditEvent = 'unlock_success' | 'unlock_failure';
+
+export interface AuditEntry {
+  id?: number;
+  timestamp: number;
+  event: AuditEvent;
+  username: string;
+  detail?: string;
 }
 
 export interface EncryptedData {
@@ -20,6 +55,12 @@ export interface DashboardCache {
   videos: VideoItem[];
 }
 
+export interface QuotaLedger {
+  day: string; // Pacific date (YYYY-MM-DD) the counts belong to, quotas reset at midnight Pacific time
+  usage: Record<string, number>; // Estimated units spent per key fingerprint (first SHA-256 bytes, hex)
+  exhausted?: string[]; // Fingerprints of the keys that returned quotaExceeded that day
+}
+
 export interface AppSettings {
   id?: string; // 'config'
   
@@ -38,12 +79,24 @@ export interface AppSettings {
   proxy1Url?: string;      // Priority 3 (Default: AllOrigins)
   proxy2Url?: string;      // Priority 4 (Fallback: CORSProxy)
 
+  // YouTube Data API usage (estimated, per key)
+  youtubeQuota?: QuotaLedger;
+
   // Cache Strategy
-  dashboardCache?: DashboardCache;
+  dashboardCache?: DashboardCache | { sealed: EncryptedData }; // Sealed when library encryption is on (see dbService.getDashboardCache)
   feedCacheDuration?: number; // Milliseconds to keep channel/playlist data
+
+  // Vault Security
+  encryptLibrary?: boolean; // Seal library records with the session key (index fields stay clear)
+  autoLockMinutes?: number; // Lock after this much inactivity, 0 = never
+  lockOnHide?: boolean; // Lock as soon as the tab is hidden
+  wipeAfterFailures?: number; // Erase the vault after this many consecutive failed unlocks, 0 = never
 }
 
-export type Platform = 'youtube' | 'vimeo' | 'dailymotion';
+export type BuiltinPlatform = 'youtube' | 'vimeo' | 'dailymotion' | 'peertube' | 'feed' | 'archive' | 'local';
+
+// Any id registered in the platform registry (services/platforms.ts), built-ins keep autocompletion
+export type Platform = BuiltinPlatform | (string & {});
 
 export interface MediaItem {
   id?: number;
@@ -52,13 +105,28 @@ export interface MediaItem {
   url: string; // Web URL (e.g. youtube.com/watch?v=...)
   type: 'channel' | 'playlist' | 'video';
   platform?: Platform; // Defaults to 'youtube' if undefined for backward compatibility
+  instance?: string; // Host of the instance for federated platforms (PeerTube)
+  mediaUrl?: string; // Direct media file (feed enclosures, Archive derivatives)
+  avatar?: string; // Artwork and description looked up when the item was added
+  banner?: string;
+  description?: string;
   tags?: string[];
+  filters?: ContentFilters; // Channels and playlists only, applied before videos are cached
   uploadsPlaylistId?: string; // Cache for Channel's "Uploads" playlist
   createdAt: number;
   
   // Content Caching
   cachedContent?: VideoItem[];
   lastFetched?: number;
+  nextCursor?: string; // Provider cursor for the page after the cached ones, missing when everything is loaded
+}
+
+export interface ContentFilters {
+  hideShorts?: boolean;
+  hideLive?: boolean; // Streams on air and their recordings
+  hideUpcoming?: boolean; // Scheduled streams and premieres
+  minDuration?: number; // Seconds, videos of unknown length are kept
+  maxDuration?: number; // Seconds
 }
 
 export interface VideoItem {
@@ -70,9 +138,18 @@ export interface VideoItem {
   author: string;
   description: string;
   platform: Platform;
-  views?: string; // Optional if we fetch stats later
+  instance?: string; // Host serving the embed for federated platforms
+  mediaUrl?: string; // Direct media file, played natively when the platform has no embed
+  views?: string; // Raw view count, filled by the enrichment pass when the platform reports it
+  duration?: number; // Seconds
+  liveStatus?: LiveStatus; // Missing for regular uploads
+  scheduledStart?: string; // ISO date an upcoming stream or premiere starts
+  wasLive?: boolean; // Recording of a stream that has ended
+  isShort?: boolean; // Vertical short-form video (YouTube Shorts)
 }
 
+export type LiveStatus = 'live' | 'upcoming' | 'premiere';
+
 export interface Lesson {
     id?: number;
     title: string;
@@ -82,6 +159,7 @@ export interface Lesson {
     content: string; // Markdown or JSON content from AI
     videoId: string;
     videoUrl: string;
+    platform?: Platform; // Platform of the video, missing on lessons saved before non-YouTube sources
     tags?: string[];
     createdAt: number;
 }